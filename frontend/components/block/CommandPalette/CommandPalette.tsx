@@ -0,0 +1,372 @@
+import { useClickOutside } from "@/hooks/useClickOutside";
+import {
+  matchesActiveCategories,
+  useGalleryFilter,
+} from "@/shared/context/context";
+import { OPEN_COMMAND_PALETTE_EVENT } from "@/shared/events/events";
+import { ProjectType } from "@/shared/types/types";
+import getProjectFilterCategories from "@/utils/getProjectFilterCategories";
+import pxToRem from "@/utils/pxToRem";
+import searchProjects from "@/utils/searchProjects";
+import { AnimatePresence, motion } from "framer-motion";
+import Image from "next/image";
+import { useRouter } from "next/router";
+import { KeyboardEvent, useEffect, useMemo, useRef, useState } from "react";
+import styled from "styled-components";
+
+const CommandPaletteWrapper = styled(motion.section)`
+  position: fixed;
+  top: 0;
+  left: 0;
+  width: 100%;
+  height: 100dvh;
+  z-index: 50;
+  display: flex;
+  justify-content: center;
+  align-items: flex-start;
+  padding: 20vh ${pxToRem(16)} ${pxToRem(16)};
+  background: rgba(221, 255, 0, 0.6);
+`;
+
+const Inner = styled.div`
+  width: 100%;
+  max-width: ${pxToRem(560)};
+  background: var(--colour-light);
+  border: 1px solid var(--colour-dark);
+`;
+
+const Input = styled.input`
+  width: 100%;
+  padding: ${pxToRem(16)};
+  border: none;
+  border-radius: 0;
+  background: transparent;
+  color: var(--colour-dark);
+  outline: none;
+
+  &::placeholder {
+    color: var(--colour-dark);
+    opacity: 0.4;
+  }
+`;
+
+const Results = styled.ul`
+  max-height: 50vh;
+  overflow-y: auto;
+  border-top: 1px solid var(--colour-dark);
+`;
+
+const Result = styled.li<{ $isActive: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: ${pxToRem(12)};
+  padding: ${pxToRem(8)} ${pxToRem(16)};
+  cursor: pointer;
+  color: ${(props) =>
+    props.$isActive ? "var(--colour-light)" : "var(--colour-dark)"};
+  background: ${(props) =>
+    props.$isActive ? "var(--colour-dark)" : "transparent"};
+`;
+
+const Thumbnail = styled.div`
+  position: relative;
+  flex-shrink: 0;
+  width: ${pxToRem(48)};
+  height: ${pxToRem(48)};
+  overflow: hidden;
+  background: var(--colour-dark);
+`;
+
+const Details = styled.div`
+  display: flex;
+  flex-direction: column;
+  min-width: 0;
+
+  span {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+`;
+
+const Meta = styled.span`
+  opacity: 0.6;
+`;
+
+const Empty = styled.p`
+  padding: ${pxToRem(16)};
+  border-top: 1px solid var(--colour-dark);
+  color: var(--colour-dark);
+`;
+
+const wrapperVariants = {
+  hidden: {
+    opacity: 0,
+    transition: {
+      duration: 0.1,
+      ease: "easeInOut",
+    },
+  },
+  visible: {
+    opacity: 1,
+    transition: {
+      duration: 0.1,
+      ease: "easeInOut",
+    },
+  },
+};
+
+const RESULTS_LIMIT = 8;
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+type Props = {
+  projects: ProjectType[];
+};
+
+// Search over the projects on the canvas. Opens with Cmd/Ctrl+K or the
+// header trigger; choosing a result sets the `project` query param, which
+// the canvas already treats as a deep link: it flies to the nearest matching
+// tile and opens it.
+const CommandPalette = (props: Props) => {
+  const { projects } = props;
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const router = useRouter();
+  const { activeCategories } = useGalleryFilter();
+
+  const ref = useRef<HTMLDivElement>(null!);
+  const previousFocusRef = useRef<HTMLElement | null>(null);
+
+  // Only projects the active filter shows: filtered-out tiles are either
+  // hidden or, when the canvas reflows, not on it at all, so there would be
+  // nothing to jump to.
+  const searchableProjects = useMemo(
+    () =>
+      projects.filter((project) =>
+        matchesActiveCategories(
+          getProjectFilterCategories(project),
+          activeCategories
+        )
+      ),
+    [projects, activeCategories]
+  );
+
+  const results = useMemo(
+    () => searchProjects(searchableProjects, query, RESULTS_LIMIT),
+    [searchableProjects, query]
+  );
+
+  const open = () => {
+    if (document.activeElement instanceof HTMLElement) {
+      previousFocusRef.current = document.activeElement;
+    }
+    setIsOpen(true);
+  };
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery("");
+    setActiveIndex(0);
+    previousFocusRef.current?.focus({ preventScroll: true });
+    previousFocusRef.current = null;
+  };
+
+  useClickOutside(ref, () => {
+    if (isOpen) close();
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.key.toLowerCase() !== "k")
+        return;
+
+      event.preventDefault();
+
+      if (isOpen) {
+        close();
+      } else {
+        open();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener(OPEN_COMMAND_PALETTE_EVENT, open);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener(OPEN_COMMAND_PALETTE_EVENT, open);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const selectProject = (project: ProjectType) => {
+    const slug = project.slug?.current;
+
+    // Closing first hands focus back before the canvas moves the camera.
+    close();
+
+    if (!slug) return;
+
+    router.push(
+      {
+        pathname: router.pathname,
+        query: { ...router.query, project: slug },
+      },
+      undefined,
+      { shallow: true, scroll: false }
+    );
+  };
+
+  // Keeps Tab inside the dialog while it's open; close() hands focus back to
+  // whatever opened it.
+  const handleTrapKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key !== "Tab") return;
+
+    const focusable = Array.from(
+      ref.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)
+    );
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+
+    if (!first) {
+      event.preventDefault();
+    } else if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case "ArrowDown":
+        setActiveIndex((index) =>
+          results.length ? (index + 1) % results.length : 0
+        );
+        break;
+      case "ArrowUp":
+        setActiveIndex((index) =>
+          results.length ? (index - 1 + results.length) % results.length : 0
+        );
+        break;
+      case "Enter":
+        if (results[activeIndex]) selectProject(results[activeIndex].project);
+        break;
+      case "Escape":
+        close();
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <CommandPaletteWrapper
+          variants={wrapperVariants}
+          initial="hidden"
+          animate="visible"
+          exit="hidden"
+          // Keeps the canvas from panning or zooming underneath the palette.
+          data-canvas-ignore
+          data-canvas-overlay
+        >
+          <Inner
+            ref={ref}
+            role="dialog"
+            aria-modal="true"
+            aria-label="Search projects"
+            onKeyDown={handleTrapKeyDown}
+          >
+            <Input
+              className="type-header"
+              type="text"
+              placeholder="Search projects, clients, years…"
+              value={query}
+              autoFocus
+              autoComplete="off"
+              spellCheck={false}
+              role="combobox"
+              aria-expanded={results.length > 0}
+              aria-controls="command-palette-results"
+              aria-activedescendant={
+                results[activeIndex]
+                  ? `command-palette-result-${activeIndex}`
+                  : undefined
+              }
+              onChange={(event) => {
+                setQuery(event.target.value);
+                setActiveIndex(0);
+              }}
+              onKeyDown={handleKeyDown}
+            />
+            {results.length > 0 && (
+              <Results id="command-palette-results" role="listbox">
+                {results.map(({ project }, index) => {
+                  const image =
+                    project.media?.thumbnailImage ?? project.media?.image;
+                  const meta = [
+                    project.client,
+                    project.year,
+                    project.categories?.[0]?.title,
+                  ]
+                    .filter(Boolean)
+                    .join(", ");
+
+                  return (
+                    <Result
+                      key={project._id}
+                      id={`command-palette-result-${index}`}
+                      role="option"
+                      aria-selected={index === activeIndex}
+                      $isActive={index === activeIndex}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => selectProject(project)}
+                    >
+                      <Thumbnail>
+                        {image?.asset?.url && (
+                          <Image
+                            src={image.asset.url}
+                            alt=""
+                            fill
+                            style={{ objectFit: "cover" }}
+                            sizes="48px"
+                          />
+                        )}
+                      </Thumbnail>
+                      <Details>
+                        <span className="type-p">
+                          {project.title ?? "Untitled project"}
+                        </span>
+                        {meta && <Meta className="type-p">{meta}</Meta>}
+                      </Details>
+                    </Result>
+                  );
+                })}
+              </Results>
+            )}
+            {query.trim() && results.length === 0 && (
+              <Empty className="type-p">
+                {searchableProjects.length < projects.length
+                  ? "No matching projects in the current filter"
+                  : "No matching projects"}
+              </Empty>
+            )}
+          </Inner>
+        </CommandPaletteWrapper>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,3 @@
+import CommandPalette from "./CommandPalette";
+
+export default CommandPalette;
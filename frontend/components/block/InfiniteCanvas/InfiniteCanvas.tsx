@@ -3,6 +3,7 @@
 import { gsap } from "gsap";
 import { Observer } from "gsap/Observer";
 import {
+  FocusEvent,
   MouseEvent,
   useCallback,
   useEffect,
@@ -11,13 +12,29 @@ import {
   useState,
 } from "react";
 import styled from "styled-components";
+import { useRouter } from "next/router";
 import {
   useGalleryFilter,
   FilterCategory,
+  matchesActiveCategories,
 } from "../../../shared/context/context";
 import { InfiniteCanvasTile } from "./Tile";
+import {
+  CanvasLayoutMode,
+  CanvasLayoutRect,
+  createSeededRandom,
+  getCanvasLayout,
+} from "./canvasLayout";
+import { pinToCentre, spreadRepeats } from "./tilePlacement";
+import { getImageZoomTier } from "./imageResolution";
+import { getTilesInView } from "./tileVirtualisation";
+import { CanvasCameraZoomLimits } from "./canvasCamera";
+import useCanvasCamera from "./useCanvasCamera";
+import { usePreferences } from "../../../shared/context/preferences";
+import Minimap, { MinimapTile } from "./Minimap";
 import { ProjectType } from "@/shared/types/types";
 import useMediaQuery from "../../../hooks/useMediaQuery";
+import getProjectFilterCategories from "../../../utils/getProjectFilterCategories";
 
 gsap.registerPlugin(Observer);
 
@@ -27,6 +44,15 @@ gsap.registerPlugin(Observer);
 const DESKTOP_TILE_GAP_VW = 0.5;
 const MOBILE_TILE_GAP_VW = 1;
 
+// Target tile height in vw. Mobile is roughly double since there is room for
+// about half as many tiles across.
+const DESKTOP_TILE_HEIGHT_VW = 15;
+const MOBILE_TILE_HEIGHT_VW = 32;
+
+// Seed for the tile shuffle and layout variation. Changing it gives a
+// different (but still stable across builds and hydration) arrangement.
+const CANVAS_LAYOUT_SEED = 42;
+
 // Zoom configuration for the entire canvas.
 // We support three conceptual levels:
 // - INTRO  (special one-off zoomed-out state while the loader is visible)
@@ -50,15 +76,6 @@ const CANVAS_ZOOM_MAX_MOBILE = 1.5;
 const CANVAS_ZOOM_MIN_MOBILE = 0.7;
 const CANVAS_ZOOM_INTRO_MOBILE = 0.5;
 
-const CANVAS_ZOOM_DURATION = 1.25;
-const INTERMEDIATE_CANVAS_ZOOM = 1.5;
-
-// Staged zoom-out thresholds (approx px of user movement after zoom).
-// After FIRST_ZOOM_OUT_THRESHOLD, zoom out to INTERMEDIATE_CANVAS_ZOOM.
-// After SECOND_ZOOM_OUT_THRESHOLD, zoom out fully to 1.
-const FIRST_ZOOM_OUT_THRESHOLD = 100;
-const SECOND_ZOOM_OUT_THRESHOLD = 300;
-
 // How far the user can pan (in px of cumulative movement) before we clear the
 // currently active tile. This is independent from zoom-out thresholds so we
 // can keep tiles "latched" for shorter movements.
@@ -69,27 +86,104 @@ const ACTIVE_TILE_CLEAR_THRESHOLD = 100;
 // count so the canvas still feels substantial, but without infinite wrapping.
 const MIN_PROJECTS_FOR_CANVAS = 100;
 
+// When projects are repeated to fill the canvas, copies of the same project
+// are kept at least this many grid cells apart (2 = never neighbours,
+// including diagonally). Archives too small for it get the largest distance
+// that fits, which is at least 2 from four projects up.
+const MIN_REPEAT_DISTANCE = 3;
+
+// How tiles respond to the category filter:
+// - "reflow": filtered-out tiles are removed and the rest animate into a
+//   compact layout, with pan bounds shrinking to match.
+// - "fade": tiles keep their place and filtered-out ones fade to transparent.
+export type CanvasFilterMode = "reflow" | "fade";
+
+const REFLOW_DURATION = 0.8;
+
+// How the canvas behaves at its edges:
+// - "finite": panning is clamped to the layout, with rubber-band edges.
+// - "wrap": the layout repeats in both axes. Each tile is moved by whole
+//   layout widths / heights to wherever is nearest the viewport, so panning
+//   never ends. Always uses the "fade" filter mode, see below.
+export type CanvasWrapMode = "finite" | "wrap";
+
 // Lower values make panning feel more sluggish (slower movement for the same input delta).
 // Increase this if you want snappier / faster panning.
 const PAN_SENSITIVITY = 1;
 
+// Momentum: on release the drag velocity (px/s) is projected forward by this
+// many seconds, up to MAX_MOMENTUM_DISTANCE, and the camera glides there.
+// Only movement within the last MOMENTUM_SAMPLE_WINDOW ms counts, so pausing
+// before letting go doesn't fling the canvas.
+const MOMENTUM_FACTOR = 0.3;
+const MAX_MOMENTUM_DISTANCE = 1500;
+const MOMENTUM_SAMPLE_WINDOW = 100;
+
 // Threshold in pixels to distinguish between a click and a drag
 const DRAG_THRESHOLD = 1;
 
-// Categories derived from project.type
-const mapProjectTypeToFilterCategory = (
-  type: ProjectType["type"]
-): FilterCategory => {
-  switch (type) {
-    case "photography":
-      return "Photography";
-    case "cinematography":
-      return "Cinematography";
-    case "direction":
-      return "Direction";
-    default:
-      return "Photography";
-  }
+// Only tiles within the viewport plus this margin (in screen px) mount their
+// media.
+// The margin is divided by the canvas scale so it covers the same amount of
+// screen whether zoomed in or out.
+const VIRTUALISATION_MARGIN = 400;
+
+// Keyboard controls. Each arrow / WASD press nudges the camera by this many
+// px (held keys repeat), and each +/- press changes the zoom by this step.
+const KEYBOARD_PAN_STEP = 200;
+const KEYBOARD_ZOOM_STEP = 0.25;
+
+// Zoom per px of wheel delta. Trackpad pinches arrive as ctrl+wheel events
+// with much smaller deltas, so they get their own, stronger sensitivity.
+const WHEEL_ZOOM_SENSITIVITY = 0.001;
+const PINCH_WHEEL_ZOOM_SENSITIVITY = 0.01;
+
+// Keys are ignored while the user is typing into a form field.
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+};
+
+// Keys also belong to open overlays (info modal, filters, command palette),
+// which mark themselves with data-canvas-overlay, and to anything focused
+// inside a data-canvas-ignore element.
+const isOverlayKeyTarget = (target: EventTarget | null): boolean =>
+  !!document.querySelector("[data-canvas-overlay]") ||
+  !!(target as Element | null)?.closest?.("[data-canvas-ignore]");
+
+// Key used to keep repeats of a project apart and to pin featured projects.
+const getTileProjectId = (tile: { project?: ProjectType }) => tile.project?._id;
+
+// Centre of the *visible* viewport. On mobile browsers the visual viewport
+// can differ from window.innerHeight because of address bars and browser
+// chrome, so prefer visualViewport when available.
+const getViewportCentre = (): { x: number; y: number } => {
+  const vv = window.visualViewport;
+  return {
+    x: vv ? vv.width / 2 + vv.offsetLeft : window.innerWidth / 2,
+    y: vv ? vv.height / 2 + vv.offsetTop : window.innerHeight / 2,
+  };
+};
+
+const getZoomLimits = (): CanvasCameraZoomLimits => {
+  const vv = window.visualViewport;
+  const viewportWidth = vv?.width ?? window.innerWidth;
+  const isMobileViewport = viewportWidth <= 768;
+
+  return isMobileViewport
+    ? {
+        min: CANVAS_ZOOM_MIN_MOBILE,
+        max: CANVAS_ZOOM_MAX_MOBILE,
+        default: CANVAS_ZOOM_DEFAULT_MOBILE,
+      }
+    : {
+        min: CANVAS_ZOOM_MIN,
+        max: CANVAS_ZOOM_MAX,
+        default: CANVAS_ZOOM_DEFAULT,
+      };
 };
 
 const InfiniteCanvasWrapper = styled.section`
@@ -119,26 +213,24 @@ const InfiniteCanvasWrapper = styled.section`
   }
 `;
 
-const InfiniteCanvasInner = styled.div`
-  position: relative;
-  /* Size is determined by row content so we can derive canvas bounds. */
-  display: flex;
-  flex-direction: column;
-  align-items: center;
-  will-change: transform;
-`;
-
-const BlockWrapper = styled.div`
-  display: flex;
-  flex-direction: row;
+// Sized from the layout engine and centred horizontally, so a world offset
+// of x = 0 shows the middle of the canvas.
+const InfiniteCanvasInner = styled.div<{ $width: number; $height: number }>`
+  position: absolute;
+  top: 0;
+  left: 50%;
+  width: ${(props) => props.$width}vw;
+  height: ${(props) => props.$height}vw;
+  margin-left: ${(props) => -props.$width / 2}vw;
   will-change: transform;
 `;
 
-const Block = styled.div<{ $gap: string; $padding: string }>`
-  display: flex;
-  justify-content: center;
-  padding: ${(props) => props.$padding};
-  gap: ${(props) => props.$gap};
+// Absolutely positioned slot for each tile. Slots and tiles are always
+// rendered (they are cheap, keep `data-tile-index` for deep links and keep
+// every tile in the Tab order) but tiles only mount their media when they
+// are near the viewport.
+const TileSlot = styled.div`
+  position: absolute;
 `;
 
 // Layer that we apply zoom (scale) to. Keeping this separate from the outer
@@ -154,10 +246,35 @@ const ZoomLayer = styled.div`
 
 type Props = {
   projects: ProjectType[];
+  // Curated projects pinned to the centre of the canvas, in order, so the
+  // first one is where the intro zoom lands.
+  featuredProjects?: ProjectType[];
+  layoutMode?: CanvasLayoutMode;
+  minRepeatDistance?: number;
+  filterMode?: CanvasFilterMode;
+  // Overlay a miniature of the whole canvas that shows (and moves) the
+  // current view. Desktop only.
+  showMinimap?: boolean;
+  wrapMode?: CanvasWrapMode;
 };
 
 const InfiniteCanvas = (props: Props) => {
-  const { projects } = props;
+  const {
+    projects,
+    featuredProjects,
+    layoutMode = "justified",
+    minRepeatDistance = MIN_REPEAT_DISTANCE,
+    filterMode: requestedFilterMode = "reflow",
+    showMinimap = false,
+    wrapMode = "finite",
+  } = props;
+
+  // Wrapping only covers the screen while one period of the layout is at
+  // least as big as the visible area. A reflow that leaves a handful of tiles
+  // shrinks the layout well below that and opens empty bands between the
+  // repeats, so filtered-out tiles fade in place instead.
+  const filterMode: CanvasFilterMode =
+    wrapMode === "wrap" ? "fade" : requestedFilterMode;
 
   // Detect mobile/portrait breakpoint (matches standard tablets like iPad in portrait)
   const isMobile = useMediaQuery("(max-width: 768px)");
@@ -165,38 +282,32 @@ const InfiniteCanvas = (props: Props) => {
   const wrapperRef = useRef<HTMLElement | null>(null); // outer canvas wrapper (for classes)
   const zoomLayerRef = useRef<HTMLDivElement | null>(null); // zoom target
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const canvasScaleRef = useRef<number>(1);
-  const moveSinceZoomRef = useRef<number>(0);
-  const zoomStageRef = useRef<0 | 1 | 2>(0); // 0 = no zoom, 1 = full zoom, 2 = intermediate zoom
   const isDraggingRef = useRef<boolean>(false);
   const dragDistanceRef = useRef<number>(0); // Track total drag distance
   const zoomBeforeDragRef = useRef<number>(1); // Store zoom level before drag starts
   const [activeTileIndex, setActiveTileIndex] = useState<number | null>(null);
-
-  // Shared world-space offset for the infinite grid. All row positions are
-  // derived from this and updated via GSAP for smooth motion.
-  const worldOffsetRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
-
-  // Track canvas and viewport sizes so we can clamp panning and prevent the
-  // user from dragging too far outside the finite grid.
-  const canvasSizeRef = useRef<{ width: number; height: number }>({
-    width: 0,
-    height: 0,
-  });
-  const viewportSizeRef = useRef<{ width: number; height: number }>({
-    width: 0,
-    height: 0,
-  });
-  const panBoundsRef = useRef<{
-    minX: number;
-    maxX: number;
-    minY: number;
-    maxY: number;
-  }>({
-    minX: 0,
-    maxX: 0,
-    minY: 0,
-    maxY: 0,
+  const [isIntroComplete, setIsIntroComplete] = useState<boolean>(false);
+  // Indexes of the tiles with their media mounted. `null` until the first
+  // measure so the server render (and first paint) include every tile.
+  const [mountedTileIndexes, setMountedTileIndexes] =
+    useState<Set<number> | null>(null);
+  // Zoom tier tile images are requested at. Starts at the intro zoom, which
+  // is where the camera sits while the first images load.
+  const [imageZoomTier, setImageZoomTier] = useState<number>(() =>
+    getImageZoomTier(CANVAS_ZOOM_INTRO)
+  );
+  // 1 until mounted so the server render matches the first client render.
+  const [pixelRatio, setPixelRatio] = useState<number>(1);
+
+  const router = useRouter();
+
+  // Pan offset, zoom, staged zoom-out and pan bounds all live in the camera;
+  // this component feeds it input and sizes.
+  const camera = useCanvasCamera({
+    containerRef,
+    zoomLayerRef,
+    getZoomLimits,
+    getViewportCentre,
   });
 
   // Track how far the user has panned since the current tile became active.
@@ -214,33 +325,40 @@ const InfiniteCanvas = (props: Props) => {
 
   const panningTimeoutRef = useRef<number | null>(null);
 
-  // Incremental values for smooth quickTo animation (like the reference component)
-  const incrXRef = useRef<number>(0);
-  const incrYRef = useRef<number>(0);
-  const xToRef = useRef<((value: number) => void) | null>(null);
-  const yToRef = useRef<((value: number) => void) | null>(null);
+  // True while two fingers are on the screen. Single-pointer dragging is
+  // ignored meanwhile so the pinch owns the camera.
+  const isPinchingRef = useRef<boolean>(false);
+  const didPinchRef = useRef<boolean>(false);
 
-  // While the intro zoom animation is playing (after the loading overlay
-  // disappears), we temporarily disable dragging and wheel zoom so the camera
-  // motion feels like a single, uninterrupted move.
-  const isIntroAnimatingRef = useRef<boolean>(true);
+  // Unclamped drag position; the camera's rubber band maps it onto its target.
+  const rawPanRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
 
-  // Also track whenever we are programmatically animating the camera (zooming
-  // in to a tile or zooming out) to prevent user interactions from conflicting
-  // with the automatic movement.
-  const isTileAnimatingRef = useRef<boolean>(false);
+  // Recent drag movement, used to work out the release velocity.
+  const panSamplesRef = useRef<{ x: number; y: number; time: number }[]>([]);
 
-  const { activeCategories } = useGalleryFilter();
+  const { activeCategories, categories } = useGalleryFilter();
+  const { isReducedMotion } = usePreferences();
+
+  // Reduced motion turns the camera's glides and zooms into instant jumps.
+  useEffect(() => {
+    camera.setReducedMotion(isReducedMotion);
+  }, [camera, isReducedMotion]);
+
+  useEffect(() => {
+    camera.setWrapping(wrapMode === "wrap");
+  }, [camera, wrapMode]);
 
   // Derived styling constants based on device
   const tileGapVw = isMobile ? MOBILE_TILE_GAP_VW : DESKTOP_TILE_GAP_VW;
-  const tileGap = `${tileGapVw}vw`;
-  const tilePadding = `${tileGapVw / 2}vw`;
+  const tileHeightVw = isMobile
+    ? MOBILE_TILE_HEIGHT_VW
+    : DESKTOP_TILE_HEIGHT_VW;
 
   // Calculate grid dimensions based on project count so the overall canvas is
   // roughly square. If there are fewer than MIN_PROJECTS_FOR_CANVAS projects
   // we deterministically repeat them up to that number, but the grid itself is
-  // still finite – no more infinite wrapping.
+  // still finite unless wrapMode repeats it. `gridCols` is the target number
+  // of tiles per row (or columns) handed to the layout engine.
   const { gridRows, gridCols, numberOfImages } = useMemo(() => {
     const totalProjects = projects?.length ?? 0;
 
@@ -265,7 +383,7 @@ const InfiniteCanvas = (props: Props) => {
 
   type TileDescriptor = {
     index: number;
-    category: FilterCategory;
+    categories: FilterCategory[];
     aspectRatio: string;
     project?: ProjectType;
     aspectPadding?: string;
@@ -292,7 +410,7 @@ const InfiniteCanvas = (props: Props) => {
       // Map projects to tiles first
       const baseTiles: Omit<TileDescriptor, "index">[] = projects.map(
         (project) => {
-          const category = mapProjectTypeToFilterCategory(project.type);
+          const categories = getProjectFilterCategories(project);
 
           // Prefer thumbnailImage dimensions for videos, otherwise fall back to main image.
           const imageSource =
@@ -336,7 +454,7 @@ const InfiniteCanvas = (props: Props) => {
           }
 
           return {
-            category,
+            categories,
             aspectRatio,
             project,
             aspectPadding,
@@ -355,15 +473,7 @@ const InfiniteCanvas = (props: Props) => {
 
       // Shuffle the expanded list deterministically so the pattern of repetition
       // is broken up, but the result is consistent across hydration.
-      // Using a simple LCG seeded with a constant.
-      let seed = 42;
-      const m = 0x80000000;
-      const a = 1103515245;
-      const c = 12345;
-      const nextFloat = () => {
-        seed = (a * seed + c) % m;
-        return seed / (m - 1);
-      };
+      const nextFloat = createSeededRandom(CANVAS_LAYOUT_SEED);
 
       // Fisher-Yates shuffle on the full list
       for (let i = allTiles.length - 1; i > 0; i--) {
@@ -371,6 +481,23 @@ const InfiniteCanvas = (props: Props) => {
         [allTiles[i], allTiles[j]] = [allTiles[j], allTiles[i]];
       }
 
+      // Editors choose what sits in the centre; everything else keeps its
+      // shuffled position.
+      const pinned = pinToCentre(
+        allTiles,
+        getTileProjectId,
+        (featuredProjects ?? []).map((project) => project._id),
+        gridCols
+      );
+
+      // Then pull repeats of the same project apart so they never sit side
+      // by side, leaving the pinned tiles where they are.
+      allTiles = spreadRepeats(pinned.tiles, getTileProjectId, {
+        columns: gridCols,
+        minDistance: minRepeatDistance,
+        lockedIndexes: pinned.pinnedIndexes,
+      });
+
       // Assign indices
       return allTiles.map((tile, index) => ({
         ...tile,
@@ -385,20 +512,20 @@ const InfiniteCanvas = (props: Props) => {
 
       return {
         index,
-        category: "Photography",
+        categories: [],
         aspectRatio,
         widthFactor: 1,
       };
     });
-  }, [projects, numberOfImages]);
+  }, [projects, featuredProjects, numberOfImages, gridCols, minRepeatDistance]);
 
   // Determine visibility for each tile based on active categories
   const tilesWithVisibility = useMemo(() => {
-    const showAll =
-      activeCategories.length === 0 || activeCategories.includes("All");
-
     return tilesWithCategories.map((tile) => {
-      const isVisible = showAll || activeCategories.includes(tile.category);
+      const isVisible = matchesActiveCategories(
+        tile.categories,
+        activeCategories
+      );
       return {
         ...tile,
         isVisible,
@@ -406,14 +533,81 @@ const InfiniteCanvas = (props: Props) => {
     });
   }, [tilesWithCategories, activeCategories]);
 
-  // Apply the current world offset as a translation to the entire canvas
-  // container. This replaces the previous per-row wrapping logic so panning is
-  // now finite and the user can reach the actual edges of the grid.
-  const updateCanvasTransform = () => {
-    if (!containerRef.current) return;
-    const { x, y } = worldOffsetRef.current;
-    gsap.set(containerRef.current, { x, y });
-  };
+  // Minimap tiles take the colour of their first category that has one.
+  const minimapTiles = useMemo<MinimapTile[]>(() => {
+    const colours = new Map(
+      categories.map((category) => [category.slug?.current, category.colour])
+    );
+
+    return tilesWithVisibility.map((tile) => ({
+      index: tile.index,
+      colour:
+        tile.categories
+          .map((category) => colours.get(category))
+          .find((colour): colour is string => !!colour) ?? undefined,
+      isVisible: tile.isVisible,
+    }));
+  }, [tilesWithVisibility, categories]);
+
+  // Absolute tile positions (in vw) and overall canvas size, so neither the
+  // pan bounds nor virtualisation need to measure the DOM.
+  // In reflow mode only the tiles matching the filter are laid out, in a
+  // roughly square grid of their own. Rects are indexed by tile index, so
+  // filtered-out tiles simply have no rect.
+  const layout = useMemo(() => {
+    let layoutTiles =
+      filterMode === "reflow"
+        ? tilesWithVisibility.filter((tile) => tile.isVisible)
+        : tilesWithVisibility;
+    const columns =
+      filterMode === "reflow"
+        ? Math.ceil(Math.sqrt(layoutTiles.length))
+        : gridCols;
+
+    // Centring and spacing were worked out for the full grid. A reflowed
+    // grid has other neighbours and another centre, so place its tiles again.
+    if (layoutTiles.length < tilesWithVisibility.length) {
+      const pinned = pinToCentre(
+        layoutTiles,
+        getTileProjectId,
+        (featuredProjects ?? []).map((project) => project._id),
+        columns
+      );
+
+      layoutTiles = spreadRepeats(pinned.tiles, getTileProjectId, {
+        columns,
+        minDistance: minRepeatDistance,
+        lockedIndexes: pinned.pinnedIndexes,
+      });
+    }
+
+    const { rects, width, height } = getCanvasLayout(
+      layoutTiles.map((tile) => ({ widthFactor: tile.widthFactor })),
+      {
+        mode: layoutMode,
+        seed: CANVAS_LAYOUT_SEED,
+        rowHeight: tileHeightVw,
+        gap: tileGapVw,
+        columns,
+      }
+    );
+
+    const rectsByTileIndex: CanvasLayoutRect[] = [];
+    layoutTiles.forEach((tile, i) => {
+      rectsByTileIndex[tile.index] = rects[i];
+    });
+
+    return { rects: rectsByTileIndex, width, height };
+  }, [
+    tilesWithVisibility,
+    filterMode,
+    layoutMode,
+    tileHeightVw,
+    tileGapVw,
+    gridCols,
+    featuredProjects,
+    minRepeatDistance,
+  ]);
 
   const setActiveTile = (index: number | null) => {
     activeTileIndexRef.current = index;
@@ -421,12 +615,48 @@ const InfiniteCanvas = (props: Props) => {
     setActiveTileIndex(index);
   };
 
+  // The intro and tile flights own the camera while they play, so user input
+  // is ignored until they finish.
+  const isCameraBusy = () => {
+    const { isIntroAnimating, isTileAnimating } = camera.getState();
+    return isIntroAnimating || isTileAnimating;
+  };
+
+  // Zooming back out (by hand or after panning away) deselects the tile.
+  useEffect(() => {
+    return camera.on("zoomstage", (stage) => {
+      if (stage !== 1) setActiveTile(null);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [camera]);
+
+  // Only re-render the tiles when the zoom crosses into another image tier.
+  // Uses the target scale so images start loading as the zoom begins.
+  useEffect(() => {
+    return camera.on("change", ({ targetScale }) => {
+      setImageZoomTier(getImageZoomTier(targetScale));
+    });
+  }, [camera]);
+
+  // The pixel ratio changes with browser zoom or when the window moves to
+  // another screen, both of which fire a resize.
+  useEffect(() => {
+    const updatePixelRatio = () => {
+      setPixelRatio(window.devicePixelRatio || 1);
+    };
+
+    updatePixelRatio();
+    window.addEventListener("resize", updatePixelRatio);
+
+    return () => {
+      window.removeEventListener("resize", updatePixelRatio);
+    };
+  }, []);
+
   // Initial zoom state: render the canvas slightly zoomed out while the loading
   // overlay is visible so that when it disappears we can animate smoothly into
   // the default zoom level.
   useEffect(() => {
-    if (!zoomLayerRef.current) return;
-
     const vv = window.visualViewport;
     const viewportWidth = vv?.width ?? window.innerWidth;
     const isMobileViewport = viewportWidth <= 768;
@@ -437,131 +667,45 @@ const InfiniteCanvas = (props: Props) => {
       ? CANVAS_ZOOM_INTRO_MOBILE
       : CANVAS_ZOOM_INTRO;
 
-    canvasScaleRef.current = initialZoom;
-    gsap.set(zoomLayerRef.current, {
-      scale: initialZoom,
-      transformOrigin: "50% 50%",
-    });
-  }, []);
-  // Helper to calculate panning bounds based on zoom level.
-  // This ensures that as we zoom in, the user can pan further to reach the edges.
-  const getPanBounds = useCallback((scale: number) => {
-    const { width: canvasWidth, height: canvasHeight } = canvasSizeRef.current;
-    const { width: viewportWidth, height: viewportHeight } =
-      viewportSizeRef.current;
-
-    // Add padding (approx 10vw / 10vh) so we can always pan to the edge
-    const padX = viewportWidth * 0.1;
-    const padY = viewportHeight * 0.1;
-
-    // X Axis
-    const visualWidth = canvasWidth * scale;
-
-    // Calculate overflow considering padding
-    // We want to allow panning until the edge is padX inside/outside the viewport
-    // Formula: Max Offset = (VisualWidth - ViewportWidth + 2 * Padding) / (2 * Scale)
-    // This allows panning past the edge by padX/scale in unscaled units
-    // Ensure halfX is at least 0 to prevent minX > maxX when content fits in viewport
-    const halfX = Math.max(
-      0,
-      (visualWidth - viewportWidth + 2 * padX) / (2 * scale)
-    );
-    const minX = -halfX;
-    const maxX = halfX;
-
-    // Y Axis
-    // Calculate vertical bounds allowing for padding
-    // MaxY (pulling down) -> Visual Top moves to padY
-    const maxY = viewportHeight / 2 + (padY - viewportHeight / 2) / scale;
+    camera.prepareIntro(initialZoom);
+  }, [camera]);
 
-    // MinY (pulling up) -> Visual Bottom moves to ViewportHeight - padY
-    const minY =
-      viewportHeight / 2 + (viewportHeight / 2 - padY) / scale - canvasHeight;
-
-    return { minX, maxX, minY, maxY };
-  }, []);
+  // Track canvas and viewport size so the camera can derive symmetric panning
+  // bounds and keep the canvas centred on both desktop and mobile.
+  const recalcPanBounds = useCallback(
+    (isAnimated = false) => {
+      if (!containerRef.current) return;
 
-  // Track canvas and viewport size so we can derive symmetric panning bounds
-  // and keep the canvas centred on both desktop and mobile.
-  const recalcPanBounds = useCallback(() => {
-    if (!containerRef.current) return;
+      // The layout is in vw, so convert to px for the camera.
+      const vw = window.innerWidth / 100;
+      const vv = window.visualViewport;
 
-    // Measure content width correctly by checking children (rows).
-    // InfiniteCanvasInner centers content, so container.scrollWidth might not
-    // reflect the full width if content overflows to the left (which is clipped/ignored in measurements).
-    let contentWidth = containerRef.current.scrollWidth;
-    const contentHeight = containerRef.current.scrollHeight;
-
-    const children = containerRef.current.children;
-    if (children.length > 0) {
-      let maxChildWidth = 0;
-      for (let i = 0; i < children.length; i++) {
-        const child = children[i] as HTMLElement;
-        // Use offsetWidth to get the rendered width of the row
-        maxChildWidth = Math.max(maxChildWidth, child.offsetWidth);
-      }
-      // If rows are wider than what the container reports, use that
-      if (maxChildWidth > contentWidth) {
-        contentWidth = maxChildWidth;
+      // Base viewport size on the wrapper's rendered size so we centre and
+      // bound the canvas relative to the actual canvas area (which may be
+      // smaller than the full window on mobile due to headers, browser chrome,
+      // safe areas, etc.).
+      let viewportWidth = vv?.width ?? window.innerWidth;
+      let viewportHeight = vv?.height ?? window.innerHeight;
+
+      if (wrapperRef.current) {
+        const rect = wrapperRef.current.getBoundingClientRect();
+        viewportWidth = rect.width || viewportWidth;
+        viewportHeight = rect.height || viewportHeight;
       }
-    }
-
-    const canvasWidth = contentWidth;
-    const canvasHeight = contentHeight;
-
-    const vv = window.visualViewport;
-
-    // Base viewport size on the wrapper's rendered size so we centre and
-    // bound the canvas relative to the actual canvas area (which may be
-    // smaller than the full window on mobile due to headers, browser chrome,
-    // safe areas, etc.).
-    let viewportWidth = vv?.width ?? window.innerWidth;
-    let viewportHeight = vv?.height ?? window.innerHeight;
-
-    if (wrapperRef.current) {
-      const rect = wrapperRef.current.getBoundingClientRect();
-      viewportWidth = rect.width || viewportWidth;
-      viewportHeight = rect.height || viewportHeight;
-    }
-
-    canvasSizeRef.current = { width: canvasWidth, height: canvasHeight };
-    viewportSizeRef.current = {
-      width: viewportWidth,
-      height: viewportHeight,
-    };
-
-    // Calculate bounds based on current scale
-    const currentScale = canvasScaleRef.current || 1;
-    const { minX, maxX, minY, maxY } = getPanBounds(currentScale);
-
-    panBoundsRef.current = { minX, maxX, minY, maxY };
-
-    let nextX = worldOffsetRef.current.x;
-    let nextY = worldOffsetRef.current.y;
-
-    // On first load, start exactly at the visual centre of the canvas so the
-    // intro zoom lands in the middle for both desktop and mobile.
-    if (nextX === 0 && nextY === 0) {
-      nextX = 0;
-      nextY = (viewportHeight - canvasHeight) / 2;
-    }
-
-    nextX = gsap.utils.clamp(minX, maxX, nextX);
-    nextY = gsap.utils.clamp(minY, maxY, nextY);
-
-    worldOffsetRef.current.x = nextX;
-    worldOffsetRef.current.y = nextY;
 
-    // Keep the incremental targets in sync so quickTo animations continue
-    // smoothly from the current centred position.
-    incrXRef.current = nextX;
-    incrYRef.current = nextY;
-
-    updateCanvasTransform();
-  }, [getPanBounds, gridRows, gridCols, numberOfImages]);
+      camera.setSizes(
+        { width: layout.width * vw, height: layout.height * vw },
+        { width: viewportWidth, height: viewportHeight },
+        isAnimated
+      );
+    },
+    [camera, layout]
+  );
 
   useEffect(() => {
-    recalcPanBounds();
+    // Once the intro has played, layout changes (e.g. filtering in reflow
+    // mode) animate the camera into the new bounds.
+    recalcPanBounds(!camera.getState().isIntroAnimating);
 
     const handleResize = () => {
       recalcPanBounds();
@@ -572,24 +716,7 @@ const InfiniteCanvas = (props: Props) => {
     return () => {
       window.removeEventListener("resize", handleResize);
     };
-  }, [recalcPanBounds]);
-
-  const zoomOutCanvas = () => {
-    if (!zoomLayerRef.current || canvasScaleRef.current === CANVAS_ZOOM_DEFAULT)
-      return;
-
-    canvasScaleRef.current = CANVAS_ZOOM_DEFAULT;
-    moveSinceZoomRef.current = 0;
-    zoomStageRef.current = 0;
-    setActiveTile(null);
-
-    gsap.to(zoomLayerRef.current, {
-      scale: CANVAS_ZOOM_DEFAULT,
-      transformOrigin: "50% 50%",
-      duration: CANVAS_ZOOM_DURATION,
-      ease: "power3.out",
-    });
-  };
+  }, [camera, recalcPanBounds]);
 
   const handleTileClick = (event: MouseEvent<HTMLDivElement>) => {
     // Don't trigger click if user was dragging significantly
@@ -598,117 +725,92 @@ const InfiniteCanvas = (props: Props) => {
       return;
     }
 
-    if (!zoomLayerRef.current) return;
+    camera.focusTile(event.currentTarget.getBoundingClientRect());
+  };
+
+  const getTileSlug = (index: number | null): string | undefined => {
+    if (index === null) return undefined;
+    return tilesWithCategories[index]?.project?.slug?.current;
+  };
 
-    const wrapper = zoomLayerRef.current;
-    const tile = event.currentTarget as HTMLDivElement;
+  // Projects are repeated to fill the canvas, so a slug can match several
+  // tiles. Pick the one closest to the centre of the viewport so the camera
+  // travels as little as possible.
+  const getNearestTileElementForSlug = (slug: string): HTMLElement | null => {
+    if (!containerRef.current) return null;
 
-    const tileRect = tile.getBoundingClientRect();
+    const { x: viewportCenterX, y: viewportCenterY } = getViewportCentre();
 
-    const tileCenterX = tileRect.left + tileRect.width / 2;
-    const tileCenterY = tileRect.top + tileRect.height / 2;
+    let nearest: HTMLElement | null = null;
+    let nearestDistance = Infinity;
 
-    // Center relative to the *visible* viewport. On mobile browsers, the
-    // visual viewport can differ from window.innerHeight because of address
-    // bars and browser chrome, so prefer visualViewport when available.
-    const vv = window.visualViewport;
-    const viewportCenterX = vv
-      ? vv.width / 2 + vv.offsetLeft
-      : window.innerWidth / 2;
-    const viewportCenterY = vv
-      ? vv.height / 2 + vv.offsetTop
-      : window.innerHeight / 2;
-
-    // First, pan so that the clicked tile is centered in the viewport.
-    // When the wrapper is scaled, a given container translation results in
-    // a larger movement on screen, so we need to compensate by dividing
-    // by the current canvas scale.
-    const currentScale =
-      canvasScaleRef.current && canvasScaleRef.current > 0
-        ? canvasScaleRef.current
-        : 1;
-
-    const deltaX = (viewportCenterX - tileCenterX) / currentScale;
-    const deltaY = (viewportCenterY - tileCenterY) / currentScale;
-
-    let targetWorldX = worldOffsetRef.current.x + deltaX;
-    let targetWorldY = worldOffsetRef.current.y + deltaY;
-
-    // Calculate target zoom early to determine appropriate bounds
-    const vvForZoom = window.visualViewport;
-    const viewportWidthForZoom = vvForZoom?.width ?? window.innerWidth;
-    const isMobileViewportForZoom = viewportWidthForZoom <= 768;
-    const targetZoom = isMobileViewportForZoom
-      ? CANVAS_ZOOM_MAX_MOBILE
-      : CANVAS_ZOOM_MAX;
-
-    // Clamp the target "camera" position into our panning bounds for the TARGET zoom level
-    const { minX, maxX, minY, maxY } = getPanBounds(targetZoom);
-    targetWorldX = gsap.utils.clamp(minX, maxX, targetWorldX);
-    targetWorldY = gsap.utils.clamp(minY, maxY, targetWorldY);
-
-    // Update incremental refs to match the target
-    // Calculate the delta needed to reach target from current incremental position
-    const deltaIncrX = targetWorldX - incrXRef.current;
-    const deltaIncrY = targetWorldY - incrYRef.current;
-
-    incrXRef.current += deltaIncrX;
-    incrYRef.current += deltaIncrY;
-
-    // Smoothly animate the "camera" so the clicked tile moves to center
-    // Use gsap.to explicitly to match the scale animation duration and easing,
-    // avoiding the "snap" effect caused by mismatched quickTo configuration.
-
-    // Block interactions during the animation
-    isTileAnimatingRef.current = true;
-
-    gsap.to(worldOffsetRef.current, {
-      x: targetWorldX,
-      y: targetWorldY,
-      duration: CANVAS_ZOOM_DURATION,
-      ease: "power3.out",
-      onComplete: () => {
-        isTileAnimatingRef.current = false;
-      },
-    });
+    tilesWithCategories.forEach((tile) => {
+      if (tile.project?.slug?.current !== slug) return;
+
+      const element = containerRef.current?.querySelector<HTMLElement>(
+        `[data-tile-index="${tile.index}"]`
+      );
+      if (!element) return;
+
+      const rect = element.getBoundingClientRect();
+      const distance = Math.hypot(
+        rect.left + rect.width / 2 - viewportCenterX,
+        rect.top + rect.height / 2 - viewportCenterY
+      );
 
-    // Then zoom the entire canvas (wrapper) around the viewport center.
-    // Because the tile is already centered in the viewport, scaling around
-    // the viewport center keeps that tile centered while everything grows.
-    canvasScaleRef.current = targetZoom;
-    moveSinceZoomRef.current = 0;
-    zoomStageRef.current = 1;
-
-    gsap.to(wrapper, {
-      scale: targetZoom,
-      transformOrigin: "50% 50%",
-      duration: CANVAS_ZOOM_DURATION,
-      ease: "power3.out",
+      if (distance < nearestDistance) {
+        nearest = element;
+        nearestDistance = distance;
+      }
     });
+
+    return nearest;
   };
 
-  useEffect(() => {
-    if (!containerRef.current) return;
+  // Clear the active tile once the user has panned far enough since it was
+  // activated.
+  const trackActiveMovement = (distance: number) => {
+    if (activeTileIndexRef.current === null) return;
 
-    // Initialize quickTo functions for smooth continuous animation (like reference component)
-    // quickTo animates the worldOffset smoothly with power4 easing
-    const xTo = gsap.quickTo(worldOffsetRef.current, "x", {
-      duration: 1.5,
-      ease: "power4",
-    });
+    moveSinceActiveRef.current += distance;
+    if (moveSinceActiveRef.current >= ACTIVE_TILE_CLEAR_THRESHOLD) {
+      setActiveTile(null);
+    }
+  };
 
-    const yTo = gsap.quickTo(worldOffsetRef.current, "y", {
-      duration: 1.5,
-      ease: "power4",
-    });
+  // Keyboard panning goes through the same camera target as dragging so
+  // both inputs share one smooth, clamped camera.
+  const panBy = (deltaX: number, deltaY: number) => {
+    camera.panBy(deltaX, deltaY);
+    trackActiveMovement(Math.abs(deltaX) + Math.abs(deltaY));
+  };
 
-    xToRef.current = xTo;
-    yToRef.current = yTo;
+  const zoomBy = (delta: number) => {
+    const { min, max } = getZoomLimits();
+    const { targetScale } = camera.getState();
+    const newScale = gsap.utils.clamp(min, max, targetScale + delta);
 
-    // Use a ticker to continuously update the canvas position during smooth animation
-    const ticker = gsap.ticker.add(() => {
-      updateCanvasTransform();
-    });
+    if (newScale === targetScale) return;
+
+    camera.zoomTo(newScale);
+  };
+
+  // Keep the focused tile in view without changing the zoom, so tabbing
+  // through the canvas walks the camera from tile to tile.
+  const panToTile = (tile: HTMLElement) => {
+    const tileRect = tile.getBoundingClientRect();
+    const { x: viewportCenterX, y: viewportCenterY } = getViewportCentre();
+    const { targetScale } = camera.getState();
+    const currentScale = targetScale > 0 ? targetScale : 1;
+
+    panBy(
+      (viewportCenterX - (tileRect.left + tileRect.width / 2)) / currentScale,
+      (viewportCenterY - (tileRect.top + tileRect.height / 2)) / currentScale
+    );
+  };
+
+  useEffect(() => {
+    if (!containerRef.current) return;
 
     const markPanning = () => {
       // Only toggle React state when we actually change panning state to
@@ -735,15 +837,80 @@ const InfiniteCanvas = (props: Props) => {
       }, 120);
     };
 
+    const recordPanSample = (x: number, y: number) => {
+      const now = performance.now();
+      const samples = panSamplesRef.current;
+
+      samples.push({ x, y, time: now });
+      while (samples.length && now - samples[0].time > MOMENTUM_SAMPLE_WINDOW) {
+        samples.shift();
+      }
+    };
+
+    // Average velocity (world px/s) over the sample window.
+    const getPanVelocity = () => {
+      const now = performance.now();
+      const samples = panSamplesRef.current.filter(
+        (sample) => now - sample.time <= MOMENTUM_SAMPLE_WINDOW
+      );
+
+      if (samples.length < 2) return { x: 0, y: 0 };
+
+      const elapsed = Math.max(1, now - samples[0].time) / 1000;
+      return {
+        x: samples.reduce((total, sample) => total + sample.x, 0) / elapsed,
+        y: samples.reduce((total, sample) => total + sample.y, 0) / elapsed,
+      };
+    };
+
+    const getMomentum = (velocity: number) =>
+      gsap.utils.clamp(
+        -MAX_MOMENTUM_DISTANCE,
+        MAX_MOMENTUM_DISTANCE,
+        velocity * MOMENTUM_FACTOR
+      );
+
+    // Shared by both axes: only drags pan (wheel is for zooming), and the
+    // movement counts towards tap detection, the camera's staged zoom-out
+    // and clearing the active tile.
+    const shouldPan = (event: Event) => {
+      // Two-finger gestures are handled by the pinch listeners.
+      if (isCameraBusy() || isPinchingRef.current) return false;
+      if (event.type === "wheel") return false;
+
+      // Prevent browser swipe-back and other defaults while panning.
+      event.preventDefault?.();
+
+      // markPanning acts as a general "activity" indicator for performance
+      markPanning();
+      return true;
+    };
+
+    const trackPan = (distance: number) => {
+      dragDistanceRef.current += distance;
+      camera.trackMovement(distance);
+      trackActiveMovement(distance);
+    };
+
     const observer = Observer.create({
       target: window,
       type: "wheel,touch,pointer",
       dragMinimum: DRAG_THRESHOLD, // Using our defined threshold (1px)
+      // Overlays such as the minimap and command palette handle their own
+      // input. Checked per event rather than with `ignore`, which only
+      // resolves its selector once and so misses overlays mounted later.
+      ignoreCheck: (event) =>
+        !!(event.target as Element | null)?.closest?.("[data-canvas-ignore]"),
 
       onDragStart: () => {
+        // Start the rubber band from wherever the camera is heading.
+        const { targetX, targetY, targetScale } = camera.getState();
+        rawPanRef.current = { x: targetX, y: targetY };
+        panSamplesRef.current = [];
+
         // Disable dragging during the intro zoom so the camera motion feels
         // like a single uninterrupted move.
-        if (isIntroAnimatingRef.current || isTileAnimatingRef.current) {
+        if (isCameraBusy()) {
           return;
         }
 
@@ -756,24 +923,16 @@ const InfiniteCanvas = (props: Props) => {
 
         // Store current zoom level and zoom out slightly during drag
         // Only apply this effect when at the furthest zoom out level (scale = 1)
-        if (zoomLayerRef.current) {
-          const currentZoom = canvasScaleRef.current;
-          zoomBeforeDragRef.current = currentZoom;
-
-          // Only zoom out during drag if we're at the base zoom level (1)
-          // This prevents interference with the auto zoom-out functionality when zoomed in
-          if (currentZoom <= 1) {
-            // Zoom out by 5% (multiply by 0.95)
-            const dragZoomOut = currentZoom * 0.95;
-            canvasScaleRef.current = dragZoomOut;
-
-            gsap.to(zoomLayerRef.current, {
-              scale: dragZoomOut,
-              transformOrigin: "50% 50%",
-              duration: 1,
-              ease: "power2.out",
-            });
-          }
+        zoomBeforeDragRef.current = targetScale;
+
+        // Only zoom out during drag if we're at the base zoom level (1)
+        // This prevents interference with the auto zoom-out functionality when zoomed in
+        if (targetScale <= 1 && !camera.getState().isReducedMotion) {
+          // Zoom out by 5% (multiply by 0.95)
+          camera.zoomTo(targetScale * 0.95, {
+            duration: 1,
+            ease: "power2.out",
+          });
         }
       },
 
@@ -784,23 +943,30 @@ const InfiniteCanvas = (props: Props) => {
 
         // Restore zoom to the level before drag started
         // Only restore if we applied the zoom-out effect (i.e., we were at scale = 1)
-        if (zoomLayerRef.current) {
+        // and the user didn't pinch to a new zoom level in the meantime.
+        if (!didPinchRef.current) {
           const restoreZoom = zoomBeforeDragRef.current;
           const wasAtBaseZoom = restoreZoom <= 1;
 
           // Only restore if we actually zoomed out during drag
-          if (wasAtBaseZoom && canvasScaleRef.current < restoreZoom) {
-            canvasScaleRef.current = restoreZoom;
-
-            gsap.to(zoomLayerRef.current, {
-              scale: restoreZoom,
-              transformOrigin: "50% 50%",
-              duration: 1,
-              ease: "power2.out",
-            });
+          if (wasAtBaseZoom && camera.getState().targetScale < restoreZoom) {
+            camera.zoomTo(restoreZoom, { duration: 1, ease: "power2.out" });
           }
         }
 
+        // Carry the release velocity into an inertial glide (none with
+        // reduced motion). The camera clamps the target, so any rubber-band
+        // overscroll springs back to the bounds.
+        if (isDraggingRef.current && !didPinchRef.current) {
+          const velocity = camera.getState().isReducedMotion
+            ? { x: 0, y: 0 }
+            : getPanVelocity();
+          camera.panBy(getMomentum(velocity.x), getMomentum(velocity.y));
+        }
+
+        panSamplesRef.current = [];
+        didPinchRef.current = false;
+
         // Delay resetting isDraggingRef and dragDistanceRef slightly so that any click event
         // firing immediately after mouseup can see that a drag just happened.
         setTimeout(() => {
@@ -811,7 +977,7 @@ const InfiniteCanvas = (props: Props) => {
 
       onWheel: (self) => {
         // Disable wheel zoom during the intro zoom animation.
-        if (isIntroAnimatingRef.current || isTileAnimatingRef.current) {
+        if (isCameraBusy()) {
           return;
         }
         // Prevent browser default behaviors (including swipe-back) on wheel/trackpad gestures
@@ -819,12 +985,10 @@ const InfiniteCanvas = (props: Props) => {
           self.event.preventDefault();
         }
 
-        // Handle zoom from center of screen
-        if (!zoomLayerRef.current) return;
+        const wheelEvent = self.event as WheelEvent;
 
-        // Get viewport dimensions (prefer visualViewport for mobile)
-        const vv = window.visualViewport;
-        const viewportWidth = vv?.width ?? window.innerWidth;
+        // Browsers report trackpad pinches as wheel events with ctrlKey set.
+        const isPinch = wheelEvent.ctrlKey;
 
         // Determine zoom direction and amount
         // Use deltaY for vertical scroll, deltaX for horizontal scroll (trackpad)
@@ -833,22 +997,18 @@ const InfiniteCanvas = (props: Props) => {
             ? -self.deltaY
             : -self.deltaX;
 
-        // Zoom sensitivity - adjust this value to make zoom faster/slower
-        const zoomSensitivity = 0.001;
+        // Zoom sensitivity - adjust the constants to make zoom faster/slower
+        const zoomSensitivity = isPinch
+          ? PINCH_WHEEL_ZOOM_SENSITIVITY
+          : WHEEL_ZOOM_SENSITIVITY;
         const zoomDelta = scrollDelta * zoomSensitivity;
 
         // Get current scale and calculate new scale
-        const currentScale = canvasScaleRef.current;
+        const currentScale = camera.getState().targetScale;
         let newScale = currentScale + zoomDelta;
 
         // Determine min/max zoom based on device
-        const isMobileViewport = viewportWidth <= 768;
-        const maxZoom = isMobileViewport
-          ? CANVAS_ZOOM_MAX_MOBILE
-          : CANVAS_ZOOM_MAX;
-        const minZoom = isMobileViewport
-          ? CANVAS_ZOOM_MIN_MOBILE
-          : CANVAS_ZOOM_MIN;
+        const { min: minZoom, max: maxZoom } = getZoomLimits();
 
         // Clamp zoom between min and max
         newScale = Math.max(minZoom, Math.min(maxZoom, newScale));
@@ -856,14 +1016,10 @@ const InfiniteCanvas = (props: Props) => {
         // Only update if scale actually changed
         if (newScale === currentScale) return;
 
-        // Update scale ref
-        canvasScaleRef.current = newScale;
-
-        // Apply zoom from center of screen
-        const zoomLayer = zoomLayerRef.current;
-        gsap.set(zoomLayer, {
-          scale: newScale,
-          transformOrigin: "50% 50%",
+        // Zoom towards the cursor rather than the centre of the screen
+        camera.zoomAround(newScale, {
+          x: wheelEvent.clientX,
+          y: wheelEvent.clientY,
         });
 
         // Mark panning for pointer-events
@@ -871,165 +1027,31 @@ const InfiniteCanvas = (props: Props) => {
       },
 
       onChangeX: (self) => {
-        // Disable horizontal panning while the intro zoom is animating.
-        if (isIntroAnimatingRef.current || isTileAnimatingRef.current) {
-          return;
-        }
-        // Only handle drag/touch events, not wheel events (wheel is for zooming)
-        if (self.event.type === "wheel") {
-          return;
-        }
-
-        // Prevent browser swipe-back gesture on desktop trackpad when panning horizontally
-        if (self.event && self.event.preventDefault) {
-          self.event.preventDefault();
-        }
-
-        // markPanning acts as a general "activity" indicator for performance
-        markPanning();
+        if (!shouldPan(self.event)) return;
 
         const delta = self.deltaX * 2 * PAN_SENSITIVITY;
 
-        // Update incremental value and use quickTo for smooth animation,
-        // clamping the target into our finite pan bounds.
-        incrXRef.current += delta;
-
-        // Use current visual scale for bounds to prevent snapping during zoom-out animation
-        const currentScale = zoomLayerRef.current
-          ? (gsap.getProperty(zoomLayerRef.current, "scale") as number)
-          : canvasScaleRef.current;
-
-        // Use dynamic bounds based on current zoom level
-        const { minX, maxX } = getPanBounds(currentScale);
-
-        incrXRef.current = gsap.utils.clamp(minX, maxX, incrXRef.current);
-        xTo(incrXRef.current);
-
-        const distance = Math.abs(self.deltaX);
-
-        // Track total drag distance for tap detection
-        dragDistanceRef.current += distance;
-
-        // Track movement after zoom to trigger staged auto zoom-out.
-        if (canvasScaleRef.current > 1) {
-          moveSinceZoomRef.current += distance;
-
-          if (
-            zoomStageRef.current === 1 &&
-            moveSinceZoomRef.current >= FIRST_ZOOM_OUT_THRESHOLD
-          ) {
-            // First stage: zoom out a bit, but not fully.
-            canvasScaleRef.current = INTERMEDIATE_CANVAS_ZOOM;
-            zoomStageRef.current = 2;
-            // Clear active tile when reaching first zoom out threshold
-            setActiveTile(null);
-
-            if (zoomLayerRef.current) {
-              gsap.to(zoomLayerRef.current, {
-                scale: INTERMEDIATE_CANVAS_ZOOM,
-                transformOrigin: "50% 50%",
-                duration: CANVAS_ZOOM_DURATION,
-                ease: "power3.out",
-              });
-            }
-          } else if (
-            zoomStageRef.current === 2 &&
-            moveSinceZoomRef.current >= SECOND_ZOOM_OUT_THRESHOLD
-          ) {
-            // Second stage: zoom all the way back out.
-            zoomOutCanvas();
-          }
-        }
+        rawPanRef.current.x += delta;
+        recordPanSample(delta, 0);
+        camera.dragTo({ x: rawPanRef.current.x });
 
-        // Clear active tile if the user has panned far enough since activation.
-        if (activeTileIndexRef.current !== null) {
-          moveSinceActiveRef.current += distance;
-          if (moveSinceActiveRef.current >= ACTIVE_TILE_CLEAR_THRESHOLD) {
-            setActiveTile(null);
-          }
-        }
+        trackPan(Math.abs(self.deltaX));
       },
       onChangeY: (self) => {
-        // Disable vertical panning while the intro zoom is animating.
-        if (isIntroAnimatingRef.current || isTileAnimatingRef.current) {
-          return;
-        }
-        // Only handle drag/touch events, not wheel events (wheel is for zooming)
-        if (self.event.type === "wheel") {
-          return;
-        }
-
-        // Prevent browser default behaviors when panning vertically
-        if (self.event && self.event.preventDefault) {
-          self.event.preventDefault();
-        }
-
-        markPanning();
+        if (!shouldPan(self.event)) return;
 
         const delta = self.deltaY * 2 * PAN_SENSITIVITY;
 
-        // Update incremental value and use quickTo for smooth animation,
-        // clamping the target into our finite pan bounds.
-        incrYRef.current += delta;
-
-        // Use current visual scale for bounds to prevent snapping during zoom-out animation
-        const currentScale = zoomLayerRef.current
-          ? (gsap.getProperty(zoomLayerRef.current, "scale") as number)
-          : canvasScaleRef.current;
-
-        // Use dynamic bounds based on current zoom level
-        const { minY, maxY } = getPanBounds(currentScale);
-
-        incrYRef.current = gsap.utils.clamp(minY, maxY, incrYRef.current);
-        yTo(incrYRef.current);
-
-        const distance = Math.abs(self.deltaY);
-
-        // Track total drag distance for tap detection
-        dragDistanceRef.current += distance;
-
-        // Track movement after zoom to trigger staged auto zoom-out.
-        if (canvasScaleRef.current > 1) {
-          moveSinceZoomRef.current += distance;
-
-          if (
-            zoomStageRef.current === 1 &&
-            moveSinceZoomRef.current >= FIRST_ZOOM_OUT_THRESHOLD
-          ) {
-            canvasScaleRef.current = INTERMEDIATE_CANVAS_ZOOM;
-            zoomStageRef.current = 2;
-            // Clear active tile when reaching first zoom out threshold
-            setActiveTile(null);
-
-            if (zoomLayerRef.current) {
-              gsap.to(zoomLayerRef.current, {
-                scale: INTERMEDIATE_CANVAS_ZOOM,
-                transformOrigin: "50% 50%",
-                duration: CANVAS_ZOOM_DURATION,
-                ease: "power3.out",
-              });
-            }
-          } else if (
-            zoomStageRef.current === 2 &&
-            moveSinceZoomRef.current >= SECOND_ZOOM_OUT_THRESHOLD
-          ) {
-            zoomOutCanvas();
-          }
-        }
+        rawPanRef.current.y += delta;
+        recordPanSample(0, delta);
+        camera.dragTo({ y: rawPanRef.current.y });
 
-        // Clear active tile if the user has panned far enough since activation.
-        if (activeTileIndexRef.current !== null) {
-          moveSinceActiveRef.current += distance;
-          if (moveSinceActiveRef.current >= ACTIVE_TILE_CLEAR_THRESHOLD) {
-            setActiveTile(null);
-          }
-        }
+        trackPan(Math.abs(self.deltaY));
       },
     });
 
     return () => {
       observer.kill();
-      gsap.ticker.remove(ticker);
 
       if (panningTimeoutRef.current !== null) {
         window.clearTimeout(panningTimeoutRef.current);
@@ -1038,13 +1060,163 @@ const InfiniteCanvas = (props: Props) => {
     };
   }, [gridRows]);
 
+  // Reflow animation: when the filter changes, move each remaining tile from
+  // its previous rect to its new one (FLIP). Both rects come from the layout
+  // so nothing needs measuring; newly shown tiles fade in. With reduced
+  // motion the tiles simply appear in their new places.
+  const previousLayoutRef = useRef<typeof layout | null>(null);
+  const previousFilterKeyRef = useRef<string>(activeCategories.join(","));
+
+  useEffect(() => {
+    const previousLayout = previousLayoutRef.current;
+    const filterKey = activeCategories.join(",");
+    const hasFilterChanged = filterKey !== previousFilterKeyRef.current;
+
+    previousLayoutRef.current = layout;
+    previousFilterKeyRef.current = filterKey;
+
+    if (
+      filterMode !== "reflow" ||
+      isReducedMotion ||
+      !hasFilterChanged ||
+      !previousLayout ||
+      !containerRef.current
+    ) {
+      return;
+    }
+
+    // The canvas is centred, so a change in its width shifts every tile.
+    const originShift = (layout.width - previousLayout.width) / 2;
+
+    const vw = window.innerWidth / 100;
+    const slots =
+      containerRef.current.querySelectorAll<HTMLElement>("[data-tile-index]");
+
+    slots.forEach((slot) => {
+      const tileIndex = Number(slot.dataset.tileIndex);
+      const rect = layout.rects[tileIndex];
+      const previous = previousLayout.rects[tileIndex];
+
+      if (!rect) return;
+
+      if (!previous) {
+        gsap.fromTo(
+          slot,
+          { opacity: 0 },
+          { opacity: 1, duration: REFLOW_DURATION, ease: "power3.out" }
+        );
+        return;
+      }
+
+      gsap.fromTo(
+        slot,
+        {
+          x: (previous.x - rect.x + originShift) * vw,
+          y: (previous.y - rect.y) * vw,
+          scaleX: previous.width / rect.width,
+          scaleY: previous.height / rect.height,
+          transformOrigin: "0 0",
+        },
+        {
+          x: 0,
+          y: 0,
+          scaleX: 1,
+          scaleY: 1,
+          duration: REFLOW_DURATION,
+          ease: "power3.inOut",
+          clearProps: "transform",
+        }
+      );
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [layout]);
+
+  // Virtualisation: on every frame work out which tiles intersect the
+  // viewport (plus a margin) and only mount their media. React state is only
+  // touched when that set actually changes. In wrap mode this is also where
+  // tiles are moved to their nearest repeat.
+  useEffect(() => {
+    const isWrapping = wrapMode === "wrap";
+
+    // Slots by tile index, and the wrap offset (in vw) applied to each since
+    // this layout, so the DOM is only touched when a tile crosses over.
+    const slots: HTMLElement[] = [];
+    const wrapOffsets: { x: number; y: number }[] = [];
+
+    if (isWrapping) {
+      containerRef.current
+        ?.querySelectorAll<HTMLElement>("[data-tile-index]")
+        .forEach((slot) => {
+          slots[Number(slot.dataset.tileIndex)] = slot;
+        });
+    }
+
+    const updateMountedTiles = () => {
+      const {
+        x: offsetX,
+        y: offsetY,
+        scale: visualScale,
+        targetScale,
+        viewportSize: { width: viewportWidth, height: viewportHeight },
+      } = camera.getState();
+
+      if (!viewportWidth || !viewportHeight) return;
+
+      // While a zoom-out tween is running the visual scale lags behind the
+      // target, so use whichever shows more of the canvas.
+      const { indexes: nextIndexes, wrapOffsets: nextWrapOffsets } =
+        getTilesInView(layout, {
+          offsetX,
+          offsetY,
+          scale: Math.min(visualScale || 1, targetScale || 1),
+          viewportWidth,
+          viewportHeight,
+          unit: window.innerWidth / 100,
+          margin: VIRTUALISATION_MARGIN / (targetScale || 1),
+          isWrapping,
+        });
+
+      if (isWrapping) {
+        nextWrapOffsets.forEach((offset, index) => {
+          const previous = wrapOffsets[index];
+          if (previous && previous.x === offset.x && previous.y === offset.y) {
+            return;
+          }
+
+          // CSS `translate` composes with the transform the reflow
+          // animation uses, so the two never overwrite each other.
+          wrapOffsets[index] = offset;
+          slots[index]?.style.setProperty(
+            "translate",
+            `${offset.x}vw ${offset.y}vw`
+          );
+        });
+      }
+
+      setMountedTileIndexes((previous) => {
+        if (
+          previous &&
+          previous.size === nextIndexes.length &&
+          nextIndexes.every((index) => previous.has(index))
+        ) {
+          return previous;
+        }
+        return new Set(nextIndexes);
+      });
+    };
+
+    gsap.ticker.add(updateMountedTiles);
+
+    return () => {
+      gsap.ticker.remove(updateMountedTiles);
+    };
+  }, [camera, layout, wrapMode]);
+
   // When the loading overlay has finished its intro and fades out, smoothly
   // zoom from the initial \"far\" zoom into our default zoom level so the user
   // lands in a natural viewing state.
   useEffect(() => {
     const handleLoadingComplete = () => {
-      if (!zoomLayerRef.current) return;
-
       const vv = window.visualViewport;
       const viewportWidth = vv?.width ?? window.innerWidth;
       const isMobileViewport = viewportWidth <= 768;
@@ -1053,32 +1225,21 @@ const InfiniteCanvas = (props: Props) => {
         ? CANVAS_ZOOM_DEFAULT_MOBILE
         : CANVAS_ZOOM_DEFAULT;
 
-      // Block user panning/zooming while this intro animation runs.
-      isIntroAnimatingRef.current = true;
-
-      gsap.to(zoomLayerRef.current, {
-        scale: defaultZoom,
-        transformOrigin: "50% 50%",
-        duration: 2,
-        delay: 0,
-        ease: "power3.out",
-        onComplete: () => {
-          canvasScaleRef.current = defaultZoom;
-          moveSinceZoomRef.current = 0;
-          zoomStageRef.current = 0;
-          isIntroAnimatingRef.current = false;
-
-          // After the intro zoom finishes, recenter the camera using the
-          // latest canvas and viewport measurements so that the user always
-          // lands in the exact middle of the canvas (especially important on
-          // mobile where the viewport can change as chrome hides).
-          // We intentionally do NOT force worldOffset to 0,0 here because that
-          // would trigger the "first load" centering logic in recalcPanBounds,
-          // causing a visual snap if the viewport height has changed (mobile URL bar).
-          // Instead, we just let recalcPanBounds clamp the *existing* position
-          // to the new bounds, which is smoother.
-          recalcPanBounds();
-        },
+      // The camera blocks user panning/zooming while this intro animation
+      // runs.
+      camera.playIntro(defaultZoom, () => {
+        setIsIntroComplete(true);
+
+        // After the intro zoom finishes, recenter the camera using the
+        // latest canvas and viewport measurements so that the user always
+        // lands in the exact middle of the canvas (especially important on
+        // mobile where the viewport can change as chrome hides).
+        // We intentionally do NOT force the camera to 0,0 here because that
+        // would trigger the "first load" centering logic in recalcPanBounds,
+        // causing a visual snap if the viewport height has changed (mobile URL bar).
+        // Instead, we just let recalcPanBounds clamp the *existing* position
+        // to the new bounds, which is smoother.
+        recalcPanBounds();
       });
     };
 
@@ -1086,6 +1247,12 @@ const InfiniteCanvas = (props: Props) => {
       window.addEventListener("loading-complete", handleLoadingComplete);
     }
 
+    // The loading overlay only runs once per visit, so when navigating back
+    // to the canvas from another page the event has already fired.
+    if (document.documentElement.dataset.loadingComplete === "true") {
+      handleLoadingComplete();
+    }
+
     return () => {
       if (typeof window !== "undefined") {
         window.removeEventListener("loading-complete", handleLoadingComplete);
@@ -1097,7 +1264,7 @@ const InfiniteCanvas = (props: Props) => {
     (event: MouseEvent<HTMLDivElement>, tileIndex: number) => {
       // Ignore tile clicks during the intro zoom animation to avoid fighting
       // with the initial camera move.
-      if (isIntroAnimatingRef.current || isTileAnimatingRef.current) {
+      if (isCameraBusy()) {
         return;
       }
 
@@ -1105,9 +1272,9 @@ const InfiniteCanvas = (props: Props) => {
       const isActive = tileIndex === activeTileIndexRef.current;
 
       // If active and zoomed in, zoom out and clear active state
-      if (isActive && canvasScaleRef.current > 1) {
+      if (isActive && camera.getState().targetScale > 1) {
         setActiveTile(null);
-        zoomOutCanvas();
+        camera.reset();
         return;
       }
 
@@ -1119,46 +1286,310 @@ const InfiniteCanvas = (props: Props) => {
     []
   );
 
+  const handleTileFocus = useCallback(
+    (event: FocusEvent<HTMLDivElement>) => {
+      if (isCameraBusy()) {
+        return;
+      }
+
+      // Only follow keyboard focus; a mouse click focuses the tile too but
+      // flies the camera itself.
+      if (!event.currentTarget.matches(":focus-visible")) return;
+
+      panToTile(event.currentTarget);
+    },
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    []
+  );
+
+  // Jumping elsewhere from the minimap leaves the focused tile behind, so
+  // treat it like panning away.
+  const handleMinimapJump = useCallback(() => {
+    if (activeTileIndexRef.current === null) return;
+
+    setActiveTile(null);
+    camera.reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [camera]);
+
+  // Two-finger pinch on touch screens: zoom around the midpoint of the
+  // fingers, and pan as the midpoint moves.
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+
+    let startDistance = 0;
+    let startScale = 1;
+    let lastMidpoint = { x: 0, y: 0 };
+
+    const getPinch = (touches: TouchList) => {
+      const [a, b] = [touches[0], touches[1]];
+      return {
+        distance: Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY),
+        midpoint: {
+          x: (a.clientX + b.clientX) / 2,
+          y: (a.clientY + b.clientY) / 2,
+        },
+      };
+    };
+
+    const handleTouchStart = (event: TouchEvent) => {
+      if (event.touches.length !== 2) return;
+      if (isCameraBusy()) return;
+
+      const { distance, midpoint } = getPinch(event.touches);
+
+      isPinchingRef.current = true;
+      didPinchRef.current = true;
+      startDistance = distance;
+      lastMidpoint = midpoint;
+
+      // Stop the slight drag zoom-out from fighting the pinch.
+      startScale = camera.stopZoom();
+    };
+
+    const handleTouchMove = (event: TouchEvent) => {
+      if (!isPinchingRef.current || event.touches.length !== 2) return;
+
+      event.preventDefault();
+
+      const { distance, midpoint } = getPinch(event.touches);
+      const { min, max } = getZoomLimits();
+      const newScale = gsap.utils.clamp(
+        min,
+        max,
+        startScale * (distance / (startDistance || distance))
+      );
+
+      camera.zoomAround(newScale, lastMidpoint, midpoint);
+      lastMidpoint = midpoint;
+    };
+
+    const handleTouchEnd = (event: TouchEvent) => {
+      if (event.touches.length < 2 && isPinchingRef.current) {
+        isPinchingRef.current = false;
+
+        // Continue any one-finger drag from where the pinch left the camera.
+        const { targetX, targetY } = camera.getState();
+        rawPanRef.current = { x: targetX, y: targetY };
+      }
+    };
+
+    // iOS Safari fires its own gesture events and would otherwise zoom the
+    // whole page.
+    const preventGesture = (event: Event) => event.preventDefault();
+
+    wrapper.addEventListener("touchstart", handleTouchStart, { passive: true });
+    wrapper.addEventListener("touchmove", handleTouchMove, { passive: false });
+    wrapper.addEventListener("touchend", handleTouchEnd);
+    wrapper.addEventListener("touchcancel", handleTouchEnd);
+    wrapper.addEventListener("gesturestart", preventGesture);
+
+    return () => {
+      wrapper.removeEventListener("touchstart", handleTouchStart);
+      wrapper.removeEventListener("touchmove", handleTouchMove);
+      wrapper.removeEventListener("touchend", handleTouchEnd);
+      wrapper.removeEventListener("touchcancel", handleTouchEnd);
+      wrapper.removeEventListener("gesturestart", preventGesture);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Keyboard controls: arrows / WASD pan, +/- zoom, Escape zooms back out.
+  // Tab / Enter traversal is handled by the tiles themselves.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.metaKey || event.ctrlKey) return;
+      if (event.altKey || isEditableTarget(event.target)) return;
+      if (isOverlayKeyTarget(event.target)) return;
+      if (camera.getState().isIntroAnimating) return;
+
+      if (event.key === "Escape") {
+        setActiveTile(null);
+        camera.reset();
+        return;
+      }
+
+      if (camera.getState().isTileAnimating) return;
+
+      switch (event.key) {
+        case "ArrowLeft":
+        case "a":
+        case "A":
+          panBy(KEYBOARD_PAN_STEP * PAN_SENSITIVITY, 0);
+          break;
+        case "ArrowRight":
+        case "d":
+        case "D":
+          panBy(-KEYBOARD_PAN_STEP * PAN_SENSITIVITY, 0);
+          break;
+        case "ArrowUp":
+        case "w":
+        case "W":
+          panBy(0, KEYBOARD_PAN_STEP * PAN_SENSITIVITY);
+          break;
+        case "ArrowDown":
+        case "s":
+        case "S":
+          panBy(0, -KEYBOARD_PAN_STEP * PAN_SENSITIVITY);
+          break;
+        case "+":
+        case "=":
+          zoomBy(KEYBOARD_ZOOM_STEP);
+          break;
+        case "-":
+        case "_":
+          zoomBy(-KEYBOARD_ZOOM_STEP);
+          break;
+        default:
+          return;
+      }
+
+      // Stop arrow keys from scrolling the page underneath.
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Deep links: when the `project` query param changes (initial load, back /
+  // forward, or a shared link) fly the camera to the nearest matching tile and
+  // open it. Waits for the intro zoom so the two camera moves don't fight.
+  useEffect(() => {
+    if (!router.isReady || !isIntroComplete) return;
+
+    const slug =
+      typeof router.query.project === "string"
+        ? router.query.project
+        : undefined;
+
+    if (slug === getTileSlug(activeTileIndexRef.current)) return;
+
+    if (!slug) {
+      if (activeTileIndexRef.current !== null) {
+        setActiveTile(null);
+        camera.reset();
+      }
+      return;
+    }
+
+    const tile = getNearestTileElementForSlug(slug);
+    if (!tile) return;
+
+    setActiveTile(Number(tile.dataset.tileIndex));
+    camera.focusTile(tile.getBoundingClientRect());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, router.query.project, isIntroComplete]);
+
+  // Mirror the active tile into the URL as a shallow route so the current
+  // project can be shared or bookmarked. Opening a project pushes a history
+  // entry; clearing it replaces the entry so panning doesn't spam history.
+  useEffect(() => {
+    if (!router.isReady || !isIntroComplete) return;
+
+    const slug = getTileSlug(activeTileIndex);
+    const currentSlug =
+      typeof router.query.project === "string"
+        ? router.query.project
+        : undefined;
+
+    if (slug === currentSlug) return;
+
+    // Preserve any other params (e.g. shared filter preferences).
+    const { project: _project, ...query } = router.query;
+
+    const navigate = slug ? router.push : router.replace;
+    navigate(
+      {
+        pathname: router.pathname,
+        query: slug ? { ...query, project: slug } : query,
+      },
+      undefined,
+      { shallow: true, scroll: false }
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTileIndex]);
+
   return (
-    <InfiniteCanvasWrapper ref={wrapperRef}>
+    <InfiniteCanvasWrapper
+      ref={wrapperRef}
+      aria-label="Projects canvas"
+      aria-describedby="canvas-keyboard-help"
+      onScroll={(event) => {
+        // Focusing an off-screen tile makes the browser scroll this clipped
+        // wrapper; undo it since the camera handles positioning.
+        event.currentTarget.scrollTop = 0;
+        event.currentTarget.scrollLeft = 0;
+      }}
+    >
+      <p id="canvas-keyboard-help" className="sr-only">
+        Use the arrow keys or WASD to pan, plus and minus to zoom, Tab to move
+        between projects, Enter to open a project and Escape to zoom out.
+      </p>
       <ZoomLayer ref={zoomLayerRef}>
-        <InfiniteCanvasInner ref={containerRef}>
-          {Array.from({ length: gridRows }, (_, rowIndex) => {
-            const startIndex = rowIndex * gridCols;
-            const endIndex = startIndex + gridCols;
-            const rowTiles = tilesWithVisibility.slice(startIndex, endIndex);
+        <InfiniteCanvasInner
+          ref={containerRef}
+          $width={layout.width}
+          $height={layout.height}
+        >
+          {tilesWithVisibility.map((tile) => {
+            const rect = layout.rects[tile.index];
+            const isActive = activeTileIndex === tile.index;
+            const isMediaMounted =
+              !mountedTileIndexes ||
+              mountedTileIndexes.has(tile.index) ||
+              isActive;
+
+            if (!rect) return null;
 
             return (
-              <BlockWrapper key={`row-${rowIndex}`}>
-                <Block $gap={tileGap} $padding={tilePadding}>
-                  {rowTiles.map((tile) => {
-                    const isActive = activeTileIndex === tile.index;
-
-                    return (
-                      <InfiniteCanvasTile
-                        key={`row-${rowIndex}-tile-${tile.index}`}
-                        tileIndex={tile.index}
-                        index={tile.index}
-                        category={tile.category}
-                        aspectRatio={tile.aspectRatio}
-                        isVisible={tile.isVisible}
-                        isActive={isActive}
-                        media={tile.project?.media}
-                        title={tile.project?.title}
-                        aspectPadding={tile.aspectPadding}
-                        widthFactor={tile.widthFactor}
-                        onClick={handleTileClickWrapper}
-                        onMouseDown={() => {}}
-                        isMobile={isMobile}
-                      />
-                    );
-                  })}
-                </Block>
-              </BlockWrapper>
+              <TileSlot
+                key={`tile-${tile.index}`}
+                data-tile-index={tile.index}
+                style={{
+                  left: `${rect.x}vw`,
+                  top: `${rect.y}vw`,
+                  width: `${rect.width}vw`,
+                  height: `${rect.height}vw`,
+                }}
+              >
+                <InfiniteCanvasTile
+                  tileIndex={tile.index}
+                  index={tile.index}
+                  categories={tile.categories}
+                  aspectRatio={tile.aspectRatio}
+                  isVisible={tile.isVisible}
+                  isActive={isActive}
+                  media={tile.project?.media}
+                  title={tile.project?.title}
+                  aspectPadding={tile.aspectPadding}
+                  onClick={handleTileClickWrapper}
+                  onFocus={handleTileFocus}
+                  widthVw={rect.width}
+                  imageZoomTier={imageZoomTier}
+                  pixelRatio={pixelRatio}
+                  isReducedMotion={isReducedMotion}
+                  isMediaMounted={isMediaMounted}
+                />
+              </TileSlot>
             );
           })}
         </InfiniteCanvasInner>
       </ZoomLayer>
+      {showMinimap && (
+        <Minimap
+          camera={camera}
+          layout={layout}
+          tiles={minimapTiles}
+          isVisible={isIntroComplete}
+          onJump={handleMinimapJump}
+        />
+      )}
     </InfiniteCanvasWrapper>
   );
 };
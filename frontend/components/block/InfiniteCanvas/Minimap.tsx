@@ -0,0 +1,194 @@
+import { PointerEvent, useEffect, useRef } from "react";
+import styled from "styled-components";
+import { gsap } from "gsap";
+import pxToRem from "../../../utils/pxToRem";
+import { CanvasCamera } from "./canvasCamera";
+import { CanvasLayout, getWrapOffset } from "./canvasLayout";
+
+// Longest side of the minimap in px; the other follows the canvas ratio.
+const MINIMAP_SIZE = 160;
+
+const MinimapWrapper = styled.div<{ $isVisible: boolean }>`
+  position: fixed;
+  right: ${pxToRem(20)};
+  bottom: ${pxToRem(20)};
+  z-index: 40;
+  padding: ${pxToRem(4)};
+  background: var(--colour-light);
+  border: 1px solid var(--colour-dark);
+  cursor: crosshair;
+  touch-action: none;
+  opacity: ${(props) => (props.$isVisible ? 1 : 0)};
+  pointer-events: ${(props) => (props.$isVisible ? "auto" : "none")};
+  transition: opacity var(--transition-speed-default) var(--transition-ease);
+
+  svg {
+    display: block;
+  }
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    display: none;
+  }
+`;
+
+const ViewportRect = styled.rect`
+  fill: none;
+  stroke: var(--colour-dark);
+  vector-effect: non-scaling-stroke;
+`;
+
+export type MinimapTile = {
+  index: number;
+  // Hex colour of the tile's first coloured category, if any.
+  colour?: string;
+  isVisible: boolean;
+};
+
+type Props = {
+  camera: CanvasCamera;
+  // The canvas layout, in the same units the tiles are placed with.
+  layout: CanvasLayout;
+  tiles: MinimapTile[];
+  isVisible: boolean;
+  // Called when the user moves the camera from the minimap.
+  onJump?: () => void;
+};
+
+// Whole canvas in miniature with a rectangle for the area on screen.
+// Clicking or dragging on it moves the camera there. Drawn in layout units
+// so the tiles need no conversion; only the camera (in px) is scaled.
+const Minimap = (props: Props) => {
+  const { camera, layout, tiles, isVisible, onJump } = props;
+
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const viewportRectRef = useRef<SVGRectElement | null>(null);
+
+  const aspect = layout.height > 0 ? layout.width / layout.height : 1;
+  const width = aspect >= 1 ? MINIMAP_SIZE : MINIMAP_SIZE * aspect;
+  const height = aspect >= 1 ? MINIMAP_SIZE / aspect : MINIMAP_SIZE;
+
+  // The camera works in px and the layout in its own units.
+  const getUnitsPerPx = () => {
+    const { canvasSize } = camera.getState();
+    return canvasSize.width > 0 ? layout.width / canvasSize.width : 0;
+  };
+
+  // Follow the camera on every frame without re-rendering.
+  useEffect(() => {
+    const updateViewportRect = () => {
+      const rect = viewportRectRef.current;
+      const unitsPerPx = getUnitsPerPx();
+      if (!rect || !unitsPerPx) return;
+
+      const { x, y, scale, isWrapping, canvasSize, viewportSize } =
+        camera.getState();
+      const visibleWidth = viewportSize.width / (scale || 1);
+      const visibleHeight = viewportSize.height / (scale || 1);
+
+      // Same maths as virtualisation: the zoom layer scales around the
+      // viewport centre and x = 0 is the middle of the canvas.
+      let left = canvasSize.width / 2 - visibleWidth / 2 - x;
+      let top = viewportSize.height / 2 - visibleHeight / 2 - y;
+
+      // A wrapping canvas repeats, so show the view within the one copy.
+      if (isWrapping) {
+        left = gsap.utils.wrap(0, canvasSize.width, left);
+        top = gsap.utils.wrap(0, canvasSize.height, top);
+      }
+
+      rect.setAttribute("x", String(left * unitsPerPx));
+      rect.setAttribute("y", String(top * unitsPerPx));
+      rect.setAttribute("width", String(visibleWidth * unitsPerPx));
+      rect.setAttribute("height", String(visibleHeight * unitsPerPx));
+    };
+
+    gsap.ticker.add(updateViewportRect);
+
+    return () => {
+      gsap.ticker.remove(updateViewportRect);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [camera, layout]);
+
+  // Centre the camera on the point under the pointer.
+  const jumpTo = (event: PointerEvent<HTMLDivElement>) => {
+    const unitsPerPx = getUnitsPerPx();
+    if (!svgRef.current || !unitsPerPx) return;
+
+    const bounds = svgRef.current.getBoundingClientRect();
+    const { targetX, targetY, isWrapping, canvasSize, viewportSize } =
+      camera.getState();
+    const pointX =
+      ((event.clientX - bounds.left) / bounds.width) * layout.width;
+    const pointY =
+      ((event.clientY - bounds.top) / bounds.height) * layout.height;
+
+    let x = canvasSize.width / 2 - pointX / unitsPerPx;
+    let y = viewportSize.height / 2 - pointY / unitsPerPx;
+
+    // When wrapping, head for the nearest repeat of that point rather than
+    // travelling back to the original copy.
+    if (isWrapping) {
+      x += getWrapOffset(x, 0, targetX, canvasSize.width);
+      y += getWrapOffset(y, 0, targetY, canvasSize.height);
+    }
+
+    camera.panTo(x, y);
+    onJump?.();
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (camera.getState().isIntroAnimating) return;
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    jumpTo(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return;
+    jumpTo(event);
+  };
+
+  if (layout.width <= 0 || layout.height <= 0) return null;
+
+  return (
+    <MinimapWrapper
+      $isVisible={isVisible}
+      // Keeps the canvas from treating minimap drags as its own.
+      data-canvas-ignore
+      aria-hidden="true"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+    >
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        preserveAspectRatio="none"
+      >
+        {tiles.map((tile) => {
+          const rect = layout.rects[tile.index];
+          if (!rect) return null;
+
+          return (
+            <rect
+              key={tile.index}
+              x={rect.x}
+              y={rect.y}
+              width={rect.width}
+              height={rect.height}
+              style={{
+                fill: tile.colour ?? "var(--colour-dark)",
+                opacity: tile.isVisible ? (tile.colour ? 1 : 0.25) : 0.08,
+              }}
+            />
+          );
+        })}
+        <ViewportRect ref={viewportRectRef} />
+      </svg>
+    </MinimapWrapper>
+  );
+};
+
+export default Minimap;
@@ -1,29 +1,28 @@
 import Image from "next/image";
-import { MouseEvent, useEffect, useState, memo, useRef } from "react";
+import {
+  FocusEvent,
+  KeyboardEvent,
+  MouseEvent,
+  useEffect,
+  useState,
+  memo,
+  useRef,
+} from "react";
 import styled from "styled-components";
 
 import { FilterCategory } from "../../../shared/context/context";
 import MediaStack from "../../common/MediaStack";
 import { MediaType } from "@/shared/types/types";
-
-const DESKTOP_TILE_HEIGHT_VW = 15;
-const MOBILE_TILE_HEIGHT_VW = 32; // Double the height percentage for mobile since cols are halved
+import { getTileImageSizes } from "./imageResolution";
 
 const TileRoot = styled.div<{
   $isVisible: boolean;
   $aspectRatio: string;
-  $widthFactor: number;
-  $isMobile: boolean;
 }>`
   position: relative;
-  height: ${(props) =>
-    props.$isMobile
-      ? `${MOBILE_TILE_HEIGHT_VW}vw`
-      : `${DESKTOP_TILE_HEIGHT_VW}vw`};
-  width: ${({ $widthFactor, $isMobile }) =>
-    $isMobile
-      ? `${MOBILE_TILE_HEIGHT_VW * ($widthFactor || 1)}vw`
-      : `${DESKTOP_TILE_HEIGHT_VW * ($widthFactor || 1)}vw`};
+  /* Sized and positioned by the canvas layout slot. */
+  width: 100%;
+  height: 100%;
   opacity: ${(props) => (props.$isVisible ? 1 : 0)};
   pointer-events: ${(props) => (props.$isVisible ? "auto" : "none")};
   transition: opacity var(--transition-speed-default) var(--transition-ease);
@@ -40,8 +39,17 @@ const TileRoot = styled.div<{
   img {
     pointer-events: none;
   }
+
+  &:focus-visible {
+    outline: 1px solid var(--colour-dark);
+    outline-offset: 2px;
+  }
 `;
 
+// How long the pointer has to rest on a video tile before its player is
+// created, so sweeping across the canvas doesn't start every video it passes.
+const VIDEO_HOVER_INTENT_DELAY = 250;
+
 const BaseImageLayer = styled.div`
   position: absolute;
   inset: 0;
@@ -66,41 +74,70 @@ const TileInner = styled.div<{
 
 export type InfiniteCanvasTileProps = {
   index: number;
-  category: FilterCategory;
+  categories: FilterCategory[];
   aspectRatio: string;
   isVisible: boolean;
   isActive: boolean;
   media?: MediaType;
   title?: string;
   aspectPadding?: string;
-  widthFactor?: number;
   tileIndex: number;
-  isMobile?: boolean;
+  // Laid-out width of the tile, before the camera's zoom.
+  widthVw: number;
+  // Stepped camera zoom the images should stay sharp at.
+  imageZoomTier: number;
+  pixelRatio: number;
+  // False while the tile is far from the viewport. The tile itself stays
+  // rendered so it can still be tabbed to; only its media is dropped.
+  isMediaMounted?: boolean;
+  // Hover no longer starts videos; they only play once the tile is active.
+  isReducedMotion?: boolean;
   onClick: (event: MouseEvent<HTMLDivElement>, tileIndex: number) => void;
-  onMouseDown: (event: MouseEvent<HTMLDivElement>) => void;
+  onMouseDown?: (event: MouseEvent<HTMLDivElement>) => void;
+  onFocus?: (event: FocusEvent<HTMLDivElement>, tileIndex: number) => void;
 };
 
 export const InfiniteCanvasTile = memo(
   ({
     index,
-    category,
+    categories,
     aspectRatio,
     isVisible,
     isActive,
     media,
     title,
     aspectPadding,
-    widthFactor = 1,
     tileIndex,
-    isMobile = false,
+    widthVw,
+    imageZoomTier,
+    pixelRatio,
+    isMediaMounted = true,
+    isReducedMotion = false,
     onClick,
     onMouseDown,
+    onFocus,
   }: InfiniteCanvasTileProps) => {
     const [isHovered, setIsHovered] = useState(false);
     const touchStartRef = useRef<{ x: number; y: number; time: number } | null>(
       null
     );
 
+    // Never step back down: a sharper image is already downloaded, and
+    // swapping to a smaller one would only cost another request.
+    const [imageTier, setImageTier] = useState(imageZoomTier);
+
+    useEffect(() => {
+      setImageTier((tier) => Math.max(tier, imageZoomTier));
+    }, [imageZoomTier]);
+
+    // Both layers ask for the same width, so hovering reuses the base image
+    // until the zoom calls for a sharper one.
+    const imageSizes = getTileImageSizes(widthVw, imageTier, pixelRatio);
+
+    // A hovered or focused tile keeps its media even when it drifts out of
+    // range, so focus never lands on an empty tile.
+    const hasMedia = isMediaMounted || isActive || isHovered;
+
     const isVideo = media?.mediaType === "video";
     const thumbnailImage = isVideo
       ? (media?.thumbnailImage ?? media?.image)
@@ -111,7 +148,8 @@ export const InfiniteCanvasTile = memo(
     // the video continues even after hover ends until the active tile is
     // cleared by panning or another tile is activated.
     const isHighResOn = isActive || isHovered;
-    const isVideoActive = isVideo && isHighResOn;
+    const isVideoActive =
+      isVideo && (isActive || (isHovered && !isReducedMotion));
     const shouldPlayVideo = isVideoActive;
 
     // When a tile transitions from active -> inactive (because another tile
@@ -157,9 +195,41 @@ export const InfiniteCanvasTile = memo(
       touchStartRef.current = null;
     };
 
+    // Enter / Space activate the tile through the same path as a click.
+    const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+      if (e.key !== "Enter" && e.key !== " ") return;
+
+      e.preventDefault();
+
+      const syntheticEvent = {
+        ...e,
+        currentTarget: e.currentTarget,
+        preventDefault: () => e.preventDefault(),
+        stopPropagation: () => e.stopPropagation(),
+      } as unknown as MouseEvent<HTMLDivElement>;
+
+      onClick(syntheticEvent, tileIndex);
+    };
+
     return (
       <TileRoot
+        role="button"
+        tabIndex={isVisible ? 0 : -1}
+        aria-label={title ?? "Untitled project"}
+        aria-pressed={isActive}
+        aria-hidden={!isVisible}
         onClick={(e) => onClick(e, tileIndex)}
+        onKeyDown={handleKeyDown}
+        onFocus={(e) => {
+          // Keyboard focus reveals the tile the same way hover does.
+          setIsHovered(true);
+          onFocus?.(e, tileIndex);
+        }}
+        onBlur={() => {
+          if (!isActive) {
+            setIsHovered(false);
+          }
+        }}
         onMouseDown={onMouseDown}
         onTouchStart={handleTouchStart}
         onTouchEnd={handleTouchEnd}
@@ -177,64 +247,69 @@ export const InfiniteCanvasTile = memo(
         }}
         $isVisible={isVisible}
         $aspectRatio={aspectRatio}
-        $widthFactor={widthFactor}
-        $isMobile={isMobile}
       >
         <TileInner
           $isActive={isActive}
           className={isHighResOn ? "remove-duotone" : undefined}
         >
-          {media ? (
-            <>
-              <BaseImageLayer className="image-colour-base">
-                {isVideo && thumbnailImage?.asset?.url ? (
-                  <Image
-                    src={thumbnailImage.asset.url}
-                    alt={title ?? thumbnailImage.alt ?? ""}
-                    fill
-                    style={{ objectFit: "cover" }}
-                    sizes={isMobile ? "15vw" : "10vw"}
-                    loading="lazy"
-                  />
-                ) : (
+          {hasMedia &&
+            (media ? (
+              <>
+                <BaseImageLayer className="image-colour-base">
+                  {isVideo && thumbnailImage?.asset?.url ? (
+                    <Image
+                      src={thumbnailImage.asset.url}
+                      alt={title ?? thumbnailImage.alt ?? ""}
+                      fill
+                      style={{ objectFit: "cover" }}
+                      sizes={imageSizes}
+                      loading="lazy"
+                      placeholder={
+                        thumbnailImage.asset.metadata?.lqip ? "blur" : "empty"
+                      }
+                      blurDataURL={thumbnailImage.asset.metadata?.lqip}
+                    />
+                  ) : (
+                    <MediaStack
+                      data={media}
+                      alt={title ?? media.image?.alt ?? ""}
+                      sizes={imageSizes}
+                      lazyLoad
+                      shouldPlayVideo={false}
+                    />
+                  )}
+                </BaseImageLayer>
+
+                <HighResImageLayer className="high-res-image-layer">
                   <MediaStack
                     data={media}
                     alt={title ?? media.image?.alt ?? ""}
-                    sizes={isMobile ? "15vw" : "10vw"}
+                    sizes={imageSizes}
                     lazyLoad
-                    noFadeInAnimation
-                    shouldPlayVideo={false}
+                    // The base layer underneath already stands in while this
+                    // loads.
+                    noPlaceholder
+                    shouldPlayVideo={shouldPlayVideo}
+                    videoPlayDelay={isActive ? 0 : VIDEO_HOVER_INTENT_DELAY}
+                    minResolution="720p"
+                  />
+                </HighResImageLayer>
+              </>
+            ) : (
+              <>
+                <BaseImageLayer className="image-colour-base">
+                  <Image
+                    src="/placeholder.jpg"
+                    alt=""
+                    fill
+                    style={{ objectFit: "cover", filter: "brightness(0)" }}
+                    sizes={imageSizes}
+                    loading="lazy"
                   />
-                )}
-              </BaseImageLayer>
-
-              <HighResImageLayer className="high-res-image-layer">
-                <MediaStack
-                  data={media}
-                  alt={title ?? media.image?.alt ?? ""}
-                  sizes={isMobile ? "80vw" : "40vw"}
-                  lazyLoad
-                  noFadeInAnimation
-                  shouldPlayVideo={shouldPlayVideo}
-                  minResolution="720p"
-                />
-              </HighResImageLayer>
-            </>
-          ) : (
-            <>
-              <BaseImageLayer className="image-colour-base">
-                <Image
-                  src="/placeholder.jpg"
-                  alt=""
-                  fill
-                  style={{ objectFit: "cover", filter: "brightness(0)" }}
-                  sizes={isMobile ? "15vw" : "10vw"}
-                  loading="lazy"
-                />
-              </BaseImageLayer>
-              <HighResImageLayer className="high-res-image-layer" />
-            </>
-          )}
+                </BaseImageLayer>
+                <HighResImageLayer className="high-res-image-layer" />
+              </>
+            ))}
         </TileInner>
       </TileRoot>
     );
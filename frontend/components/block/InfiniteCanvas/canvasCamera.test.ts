@@ -0,0 +1,416 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyRubberBand,
+  CanvasCameraOptions,
+  createCanvasCamera,
+} from "./canvasCamera";
+
+type Values = Record<string, number>;
+
+type FakeTween = {
+  target: Values;
+  from: Values;
+  to: Values;
+  duration: number;
+  elapsed: number;
+  isQuick: boolean;
+  onComplete?: () => void;
+};
+
+// Just enough of GSAP for the camera, driven by a clock the test advances.
+// Tweens are linear; easing doesn't matter for where they end up.
+const createFakeGsap = () => {
+  let tweens: FakeTween[] = [];
+  const tickers = new Set<() => void>();
+
+  const apply = (tween: FakeTween, progress: number) => {
+    Object.keys(tween.to).forEach((prop) => {
+      tween.target[prop] =
+        tween.from[prop] + (tween.to[prop] - tween.from[prop]) * progress;
+    });
+  };
+
+  const start = (tween: Omit<FakeTween, "from" | "elapsed">) => {
+    const from: Values = {};
+    Object.keys(tween.to).forEach((prop) => {
+      from[prop] = tween.target[prop];
+    });
+
+    const fullTween = { ...tween, from, elapsed: 0 };
+    if (fullTween.duration <= 0) {
+      apply(fullTween, 1);
+      fullTween.onComplete?.();
+      return;
+    }
+
+    tweens.push(fullTween);
+  };
+
+  const gsap = {
+    utils: {
+      clamp: (min: number, max: number, value: number) =>
+        Math.min(max, Math.max(min, value)),
+    },
+    ticker: {
+      add: (callback: () => void) => tickers.add(callback),
+      remove: (callback: () => void) => tickers.delete(callback),
+    },
+    set: () => {},
+    to: (
+      target: Values,
+      vars: Values & { duration?: number; onComplete?: () => void }
+    ) => {
+      const { duration = 0.5, onComplete, ...values } = vars;
+      delete (values as Record<string, unknown>).ease;
+      start({ target, to: values, duration, isQuick: false, onComplete });
+    },
+    quickTo:
+      (target: Values, prop: string, vars: { duration: number }) =>
+      (value: number, startValue?: number) => {
+        tweens = tweens.filter(
+          (tween) =>
+            !(tween.isQuick && tween.target === target && prop in tween.to)
+        );
+        if (startValue !== undefined) target[prop] = startValue;
+        start({
+          target,
+          to: { [prop]: value },
+          duration: vars.duration,
+          isQuick: true,
+        });
+      },
+    killTweensOf: (target: Values, props: string) => {
+      tweens = tweens.filter(
+        (tween) =>
+          tween.target !== target ||
+          !props.split(",").some((prop) => prop.trim() in tween.to)
+      );
+    },
+  };
+
+  const tick = (seconds: number) => {
+    const running = [...tweens];
+
+    running.forEach((tween) => {
+      tween.elapsed = Math.min(tween.duration, tween.elapsed + seconds);
+      apply(tween, tween.elapsed / tween.duration);
+    });
+
+    running
+      .filter((tween) => tween.elapsed >= tween.duration)
+      .forEach((tween) => {
+        tweens = tweens.filter((other) => other !== tween);
+        tween.onComplete?.();
+      });
+
+    tickers.forEach((callback) => callback());
+  };
+
+  return {
+    gsap: gsap as unknown as NonNullable<CanvasCameraOptions["gsap"]>,
+    tick,
+  };
+};
+
+const ZOOM_LIMITS = { min: 0.5, max: 3, default: 1 };
+const CANVAS = { width: 4000, height: 3000 };
+const VIEWPORT = { width: 1000, height: 800 };
+
+const setup = () => {
+  const { gsap, tick } = createFakeGsap();
+  const camera = createCanvasCamera({
+    getZoomLimits: () => ZOOM_LIMITS,
+    getViewportCentre: () => ({ x: 500, y: 400 }),
+    gsap,
+  });
+  camera.setSizes(CANVAS, VIEWPORT);
+
+  const stages: number[] = [];
+  camera.on("zoomstage", (stage) => stages.push(stage));
+
+  return { camera, tick, stages };
+};
+
+// Long enough for any camera tween to finish.
+const SETTLE = 5;
+
+describe("applyRubberBand", () => {
+  it("leaves values inside the bounds alone", () => {
+    expect(applyRubberBand(50, 0, 100, 1000)).toBe(50);
+  });
+
+  it("resists more the further past an edge it goes", () => {
+    const small = applyRubberBand(150, 0, 100, 1000) - 100;
+    const large = applyRubberBand(600, 0, 100, 1000) - 100;
+
+    expect(small).toBeGreaterThan(0);
+    expect(small).toBeLessThan(50);
+    expect(large).toBeGreaterThan(small);
+    expect(large / 500).toBeLessThan(small / 50);
+  });
+
+  it("never overshoots by more than the visible size", () => {
+    expect(applyRubberBand(1e9, 0, 100, 1000)).toBeLessThan(1100);
+    expect(applyRubberBand(-1e9, 0, 100, 1000)).toBeGreaterThan(-1000);
+  });
+
+  it("pulls back symmetrically at both edges", () => {
+    expect(applyRubberBand(-50, 0, 100, 1000)).toBeCloseTo(
+      -(applyRubberBand(150, 0, 100, 1000) - 100)
+    );
+  });
+});
+
+describe("createCanvasCamera", () => {
+  describe("getPanBounds", () => {
+    it("lets the canvas edges come a tenth of the viewport inside it", () => {
+      const { camera } = setup();
+
+      expect(camera.getPanBounds(1)).toEqual({
+        minX: -1600,
+        maxX: 1600,
+        minY: -2280,
+        maxY: 80,
+      });
+    });
+
+    it("widens as the camera zooms in", () => {
+      const { camera } = setup();
+
+      expect(camera.getPanBounds(2).maxX).toBe(1800);
+      expect(camera.getPanBounds(2).minY).toBeLessThan(
+        camera.getPanBounds(1).minY
+      );
+    });
+
+    it("never lets minX pass maxX when the canvas fits", () => {
+      const { camera } = setup();
+      camera.setSizes({ width: 200, height: 200 }, VIEWPORT);
+
+      const { minX, maxX } = camera.getPanBounds(1);
+      expect(minX).toBeCloseTo(0);
+      expect(maxX).toBeCloseTo(0);
+    });
+
+    it("clamps pans to the bounds", () => {
+      const { camera } = setup();
+
+      camera.panTo(1e6, 1e6);
+      expect(camera.getState()).toMatchObject({ targetX: 1600, targetY: 80 });
+
+      camera.panTo(-1e6, -1e6);
+      expect(camera.getState()).toMatchObject({
+        targetX: -1600,
+        targetY: -2280,
+      });
+    });
+
+    it("starts centred on the canvas", () => {
+      const { camera } = setup();
+
+      expect(camera.getState()).toMatchObject({ x: 0, y: -1100 });
+    });
+  });
+
+  describe("panning", () => {
+    it("eases towards the target on the clock", () => {
+      const { camera, tick } = setup();
+
+      camera.panBy(300, 0);
+      expect(camera.getState().x).toBe(0);
+
+      tick(0.5);
+      expect(camera.getState().x).toBeGreaterThan(0);
+      expect(camera.getState().x).toBeLessThan(300);
+
+      tick(SETTLE);
+      expect(camera.getState().x).toBe(300);
+    });
+
+    it("jumps straight there with reduced motion", () => {
+      const { camera } = setup();
+      camera.setReducedMotion(true);
+
+      camera.panBy(300, 0);
+
+      expect(camera.getState().x).toBe(300);
+    });
+
+    it("rubber-bands drags past the bounds", () => {
+      const { camera } = setup();
+
+      camera.dragTo({ x: 2100 });
+      const { targetX } = camera.getState();
+
+      expect(targetX).toBeGreaterThan(1600);
+      expect(targetX).toBeLessThan(2100);
+
+      camera.panBy(0, 0);
+      expect(camera.getState().targetX).toBe(1600);
+    });
+  });
+
+  describe("focusTile and reset", () => {
+    it("centres the tile and zooms in to the max", () => {
+      const { camera, tick, stages } = setup();
+
+      camera.focusTile({ left: 650, top: 300, width: 100, height: 100 });
+
+      expect(camera.getState()).toMatchObject({
+        targetX: -200,
+        targetY: -1100 + 50,
+        targetScale: 3,
+        zoomStage: 1,
+        isTileAnimating: true,
+      });
+      expect(stages).toEqual([1]);
+
+      tick(SETTLE);
+
+      expect(camera.getState()).toMatchObject({
+        x: -200,
+        y: -1050,
+        scale: 3,
+        isTileAnimating: false,
+      });
+    });
+
+    it("divides the offset by the current zoom", () => {
+      const { camera, tick } = setup();
+      camera.zoomTo(2);
+      tick(SETTLE);
+
+      camera.focusTile({ left: 650, top: 350, width: 100, height: 100 });
+
+      expect(camera.getState().targetX).toBe(-100);
+    });
+
+    it("zooms back out to the default", () => {
+      const { camera, tick, stages } = setup();
+      camera.focusTile({ left: 450, top: 350, width: 100, height: 100 });
+      tick(SETTLE);
+
+      camera.reset();
+      tick(SETTLE);
+
+      expect(camera.getState()).toMatchObject({
+        scale: 1,
+        targetScale: 1,
+        zoomStage: 0,
+      });
+      expect(stages).toEqual([1, 0]);
+    });
+
+    it("does nothing when already at the default zoom", () => {
+      const { camera, stages } = setup();
+
+      camera.reset();
+
+      expect(stages).toEqual([]);
+      expect(camera.getState().targetScale).toBe(1);
+    });
+  });
+
+  describe("trackMovement", () => {
+    const focus = () => {
+      const context = setup();
+      context.camera.focusTile({
+        left: 450,
+        top: 350,
+        width: 100,
+        height: 100,
+      });
+      context.tick(SETTLE);
+      return context;
+    };
+
+    it("zooms out part-way after 100px of movement", () => {
+      const { camera, tick, stages } = focus();
+
+      camera.trackMovement(60);
+      camera.trackMovement(39);
+      expect(camera.getState().zoomStage).toBe(1);
+
+      camera.trackMovement(1);
+      tick(SETTLE);
+
+      expect(camera.getState()).toMatchObject({
+        zoomStage: 2,
+        scale: 1.5,
+        targetScale: 1.5,
+      });
+      expect(stages).toEqual([1, 2]);
+    });
+
+    it("zooms out fully after another 300px", () => {
+      const { camera, tick, stages } = focus();
+      camera.trackMovement(100);
+
+      camera.trackMovement(299);
+      expect(camera.getState().zoomStage).toBe(2);
+
+      camera.trackMovement(1);
+      tick(SETTLE);
+
+      expect(camera.getState()).toMatchObject({
+        zoomStage: 0,
+        scale: 1,
+      });
+      expect(stages).toEqual([1, 2, 0]);
+    });
+
+    it("ignores movement at the default zoom", () => {
+      const { camera, stages } = setup();
+
+      camera.trackMovement(1000);
+
+      expect(stages).toEqual([]);
+      expect(camera.getState().targetScale).toBe(1);
+    });
+  });
+
+  describe("wrapping", () => {
+    it("drops the pan bounds", () => {
+      const { camera } = setup();
+      camera.setWrapping(true);
+
+      expect(camera.getPanBounds()).toEqual({
+        minX: -Infinity,
+        maxX: Infinity,
+        minY: -Infinity,
+        maxY: Infinity,
+      });
+
+      camera.panTo(1e6, -1e6);
+      expect(camera.getState()).toMatchObject({
+        targetX: 1e6,
+        targetY: -1e6,
+        isWrapping: true,
+      });
+    });
+
+    it("doesn't rubber-band drags", () => {
+      const { camera } = setup();
+      camera.setWrapping(true);
+
+      camera.dragTo({ x: 5000, y: -9000 });
+
+      expect(camera.getState()).toMatchObject({
+        targetX: 5000,
+        targetY: -9000,
+      });
+    });
+
+    it("pulls the camera back inside the bounds when turned off", () => {
+      const { camera, tick } = setup();
+      camera.setWrapping(true);
+      camera.panTo(1e6, 0);
+      tick(SETTLE);
+
+      camera.setWrapping(false);
+      tick(SETTLE);
+
+      expect(camera.getState()).toMatchObject({ x: 1600, targetX: 1600 });
+    });
+  });
+});
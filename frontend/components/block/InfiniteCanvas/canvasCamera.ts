@@ -0,0 +1,561 @@
+// Camera controller for the infinite canvas. Owns the pan offset, zoom level,
+// staged zoom-out and the pan bounds, and animates them with GSAP. It has no
+// React or DOM dependencies beyond the two elements it is attached to, so
+// the canvas, keyboard controls and deep links can all drive the same camera.
+//
+// Positions are in canvas px: x = 0 is the horizontal middle of the canvas
+// and y = 0 its top edge, offset by the viewport (see getPanBounds). When
+// wrapping, the canvas repeats in both axes and the camera is unbounded.
+
+import { gsap as defaultGsap } from "gsap";
+
+export type CanvasCameraPoint = { x: number; y: number };
+
+export type CanvasCameraSize = { width: number; height: number };
+
+// Screen-space rect, e.g. from getBoundingClientRect().
+export type CanvasCameraRect = {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+};
+
+export type CanvasCameraBounds = {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+};
+
+export type CanvasCameraZoomLimits = {
+  min: number;
+  max: number;
+  default: number;
+};
+
+// 0 = resting, 1 = zoomed in on a tile, 2 = part-way back out.
+export type CanvasCameraZoomStage = 0 | 1 | 2;
+
+export type CanvasCameraState = {
+  // Where the camera is right now (mid-animation).
+  x: number;
+  y: number;
+  scale: number;
+  // Where it is heading.
+  targetX: number;
+  targetY: number;
+  targetScale: number;
+  zoomStage: CanvasCameraZoomStage;
+  isIntroAnimating: boolean;
+  isTileAnimating: boolean;
+  isReducedMotion: boolean;
+  isWrapping: boolean;
+  canvasSize: CanvasCameraSize;
+  viewportSize: CanvasCameraSize;
+};
+
+export type CanvasCameraEvents = {
+  // Any change to the camera's target, zoom stage or animation flags.
+  change: CanvasCameraState;
+  zoomstage: CanvasCameraZoomStage;
+};
+
+export type CanvasCameraOptions = {
+  // Called whenever a limit is needed, so it can depend on the viewport.
+  getZoomLimits: () => CanvasCameraZoomLimits;
+  // Screen point that focused tiles are centred on. Defaults to the middle of
+  // the viewport size passed to setSizes.
+  getViewportCentre?: () => CanvasCameraPoint;
+  // Defaults to the global instance; tests can pass one driven by a fake
+  // clock.
+  gsap?: typeof defaultGsap;
+};
+
+export type CanvasCameraElements = {
+  // Translated by the pan offset.
+  container: HTMLElement;
+  // Scaled around its centre.
+  zoomLayer: HTMLElement;
+};
+
+const ZOOM_DURATION = 1.25;
+const INTRO_DURATION = 2;
+const INTERMEDIATE_ZOOM = 1.5;
+
+// Staged zoom-out thresholds (approx px of user movement after zoom).
+// After FIRST_ZOOM_OUT_THRESHOLD, zoom out to INTERMEDIATE_ZOOM.
+// After SECOND_ZOOM_OUT_THRESHOLD, zoom out fully to the default.
+const FIRST_ZOOM_OUT_THRESHOLD = 100;
+const SECOND_ZOOM_OUT_THRESHOLD = 300;
+
+// Pans ease towards their target with quickTo, so dragging, keys and
+// momentum all feel the same.
+const PAN_DURATION = 1.5;
+const PAN_EASE = "power4";
+
+// How far past the canvas edge the camera may go, as a fraction of the
+// viewport.
+const PAN_PADDING = 0.1;
+
+// Rubber-band edges: dragging past the pan bounds moves the canvas less and
+// less the further you go (lower = stiffer), and it springs back on release.
+const RUBBER_BAND_RESISTANCE = 0.55;
+
+// iOS-style rubber band. `dimension` is the visible size along the axis, so
+// the overscroll can never exceed it.
+export const applyRubberBand = (
+  value: number,
+  min: number,
+  max: number,
+  dimension: number
+): number => {
+  const resist = (overscroll: number) =>
+    (1 - 1 / ((overscroll * RUBBER_BAND_RESISTANCE) / dimension + 1)) *
+    dimension;
+
+  if (value < min) return min - resist(min - value);
+  if (value > max) return max + resist(value - max);
+  return value;
+};
+
+export const createCanvasCamera = (options: CanvasCameraOptions) => {
+  const { getZoomLimits } = options;
+  const animator = options.gsap ?? defaultGsap;
+  const { clamp } = animator.utils;
+
+  // The animated values. Tweens run on this plain object and the ticker
+  // copies it onto the attached elements.
+  const view = { x: 0, y: 0, scale: 1 };
+
+  const target = { x: 0, y: 0 };
+  let targetScale = 1;
+  let zoomStage: CanvasCameraZoomStage = 0;
+  let moveSinceZoom = 0;
+  let isIntroAnimating = false;
+  let isTileAnimating = false;
+  let isReducedMotion = false;
+  let isWrapping = false;
+  let canvasSize: CanvasCameraSize = { width: 0, height: 0 };
+  let viewportSize: CanvasCameraSize = { width: 0, height: 0 };
+  let elements: CanvasCameraElements | null = null;
+
+  const xTo = animator.quickTo(view, "x", {
+    duration: PAN_DURATION,
+    ease: PAN_EASE,
+  });
+  const yTo = animator.quickTo(view, "y", {
+    duration: PAN_DURATION,
+    ease: PAN_EASE,
+  });
+
+  const listeners: {
+    [K in keyof CanvasCameraEvents]: Set<
+      (payload: CanvasCameraEvents[K]) => void
+    >;
+  } = {
+    change: new Set(),
+    zoomstage: new Set(),
+  };
+
+  const getState = (): CanvasCameraState => ({
+    x: view.x,
+    y: view.y,
+    scale: view.scale,
+    targetX: target.x,
+    targetY: target.y,
+    targetScale,
+    zoomStage,
+    isIntroAnimating,
+    isTileAnimating,
+    isReducedMotion,
+    isWrapping,
+    canvasSize,
+    viewportSize,
+  });
+
+  const on = <K extends keyof CanvasCameraEvents>(
+    type: K,
+    listener: (payload: CanvasCameraEvents[K]) => void
+  ): (() => void) => {
+    const set = listeners[type] as Set<
+      (payload: CanvasCameraEvents[K]) => void
+    >;
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  };
+
+  // Skips building the state object when nobody is listening, since pans
+  // fire on every pointer move.
+  const emitChange = () => {
+    if (listeners.change.size === 0) return;
+    const state = getState();
+    listeners.change.forEach((listener) => listener(state));
+  };
+
+  const setZoomStage = (stage: CanvasCameraZoomStage) => {
+    moveSinceZoom = 0;
+    if (stage === zoomStage) return;
+    zoomStage = stage;
+    listeners.zoomstage.forEach((listener) => listener(stage));
+  };
+
+  // With reduced motion every camera move is an instant jump.
+  const getDuration = (duration: number) => (isReducedMotion ? 0 : duration);
+
+  // Ease one axis towards its target. Passing the target as the start value
+  // too restarts quickTo already there, so it can't pull the camera back.
+  const moveAxis = (axis: "x" | "y") => {
+    const quickTo = axis === "x" ? xTo : yTo;
+
+    if (isReducedMotion) {
+      view[axis] = target[axis];
+      quickTo(target[axis], target[axis]);
+      return;
+    }
+
+    quickTo(target[axis]);
+  };
+
+  const moveToTarget = () => {
+    moveAxis("x");
+    moveAxis("y");
+  };
+
+  const render = () => {
+    if (!elements) return;
+    animator.set(elements.container, { x: view.x, y: view.y });
+    animator.set(elements.zoomLayer, { scale: view.scale });
+  };
+
+  // Bounds for the pan offset at a given scale. This ensures that as we zoom
+  // in, the user can pan further to reach the edges.
+  const getPanBounds = (scale: number = targetScale): CanvasCameraBounds => {
+    if (isWrapping) {
+      return {
+        minX: -Infinity,
+        maxX: Infinity,
+        minY: -Infinity,
+        maxY: Infinity,
+      };
+    }
+
+    const padX = viewportSize.width * PAN_PADDING;
+    const padY = viewportSize.height * PAN_PADDING;
+
+    // Allow panning until the edge is padX inside the viewport. At least 0
+    // so minX never passes maxX when the canvas fits in the viewport.
+    const halfX = Math.max(
+      0,
+      (canvasSize.width * scale - viewportSize.width + 2 * padX) / (2 * scale)
+    );
+
+    // Pulling down moves the visual top to padY; pulling up moves the visual
+    // bottom to the viewport height minus padY.
+    const maxY =
+      viewportSize.height / 2 + (padY - viewportSize.height / 2) / scale;
+    const minY =
+      viewportSize.height / 2 +
+      (viewportSize.height / 2 - padY) / scale -
+      canvasSize.height;
+
+    return { minX: -halfX, maxX: halfX, minY, maxY };
+  };
+
+  const getViewportCentre = (): CanvasCameraPoint =>
+    options.getViewportCentre?.() ?? {
+      x: viewportSize.width / 2,
+      y: viewportSize.height / 2,
+    };
+
+  // The zoom layer scales around its own centre.
+  const getZoomOrigin = (): CanvasCameraPoint => {
+    if (!elements) return getViewportCentre();
+    const rect = elements.zoomLayer.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+  };
+
+  // Glide to an offset, clamped into the bounds for the target scale.
+  const panTo = (x: number, y: number) => {
+    const { minX, maxX, minY, maxY } = getPanBounds();
+
+    target.x = clamp(minX, maxX, x);
+    target.y = clamp(minY, maxY, y);
+
+    moveToTarget();
+    emitChange();
+  };
+
+  const panBy = (deltaX: number, deltaY: number) => {
+    panTo(target.x + deltaX, target.y + deltaY);
+  };
+
+  // Follow a drag. Unlike panTo the position isn't clamped: past the bounds
+  // it resists, and the next panTo / panBy springs it back. Bounds use the
+  // visual scale so a running zoom tween doesn't make the canvas snap.
+  const dragTo = (position: Partial<CanvasCameraPoint>) => {
+    const scale = view.scale || 1;
+    const { minX, maxX, minY, maxY } = getPanBounds(scale);
+
+    if (position.x !== undefined) {
+      target.x = applyRubberBand(
+        position.x,
+        minX,
+        maxX,
+        viewportSize.width / scale
+      );
+      moveAxis("x");
+    }
+
+    if (position.y !== undefined) {
+      target.y = applyRubberBand(
+        position.y,
+        minY,
+        maxY,
+        viewportSize.height / scale
+      );
+      moveAxis("y");
+    }
+
+    emitChange();
+  };
+
+  // Animate the zoom around the viewport centre. Zooming out shrinks the pan
+  // bounds, so the camera is pulled back inside them.
+  const zoomTo = (
+    scale: number,
+    tween: { duration?: number; ease?: string } = {}
+  ) => {
+    targetScale = scale;
+
+    animator.to(view, {
+      scale,
+      duration: getDuration(tween.duration ?? ZOOM_DURATION),
+      ease: tween.ease ?? "power3.out",
+    });
+
+    panBy(0, 0);
+  };
+
+  // Zoom immediately so the canvas point under `from` ends up under `to`
+  // (both in client px). With a single point this keeps whatever is under
+  // the cursor still; for pinches, passing the previous and current midpoint
+  // also pans with the fingers.
+  const zoomAround = (
+    scale: number,
+    from: CanvasCameraPoint,
+    to: CanvasCameraPoint = from
+  ) => {
+    const currentScale = targetScale || 1;
+    const origin = getZoomOrigin();
+
+    const shiftX =
+      (to.x - origin.x) / scale - (from.x - origin.x) / currentScale;
+    const shiftY =
+      (to.y - origin.y) / scale - (from.y - origin.y) / currentScale;
+
+    targetScale = scale;
+    view.scale = scale;
+
+    const { minX, maxX, minY, maxY } = getPanBounds(scale);
+
+    // Shift the camera immediately so the anchor point doesn't drift, then
+    // let quickTo carry on from there towards the (shifted) target.
+    view.x = clamp(minX, maxX, view.x + shiftX);
+    view.y = clamp(minY, maxY, view.y + shiftY);
+    target.x = clamp(minX, maxX, target.x + shiftX);
+    target.y = clamp(minY, maxY, target.y + shiftY);
+
+    render();
+    moveToTarget();
+    emitChange();
+  };
+
+  // Stop any running zoom where it is, e.g. so a pinch can take over.
+  // Returns the scale it stopped at.
+  const stopZoom = (): number => {
+    animator.killTweensOf(view, "scale");
+    targetScale = view.scale;
+    emitChange();
+    return targetScale;
+  };
+
+  // Centre a tile (given by its on-screen rect) and zoom in on it. Input
+  // should be ignored until isTileAnimating clears.
+  const focusTile = (rect: CanvasCameraRect) => {
+    const centre = getViewportCentre();
+    const currentScale = targetScale > 0 ? targetScale : 1;
+    const scale = getZoomLimits().max;
+
+    // A given offset moves things further on screen when scaled, so divide
+    // by the current scale. Clamp for the scale we're zooming to.
+    const { minX, maxX, minY, maxY } = getPanBounds(scale);
+    target.x = clamp(
+      minX,
+      maxX,
+      view.x + (centre.x - (rect.left + rect.width / 2)) / currentScale
+    );
+    target.y = clamp(
+      minY,
+      maxY,
+      view.y + (centre.y - (rect.top + rect.height / 2)) / currentScale
+    );
+
+    isTileAnimating = true;
+    targetScale = scale;
+    setZoomStage(1);
+
+    // Pan and zoom share one duration and ease; because the tile ends up in
+    // the middle, scaling around the centre keeps it there.
+    animator.to(view, {
+      x: target.x,
+      y: target.y,
+      scale,
+      duration: getDuration(ZOOM_DURATION),
+      ease: "power3.out",
+      onComplete: () => {
+        isTileAnimating = false;
+        emitChange();
+      },
+    });
+
+    emitChange();
+  };
+
+  // Zoom back out to the default level.
+  const reset = () => {
+    const { default: defaultScale } = getZoomLimits();
+    if (targetScale === defaultScale) return;
+
+    setZoomStage(0);
+    zoomTo(defaultScale);
+  };
+
+  // Report user movement (in px) so the camera can zoom back out in stages
+  // after a tile has been focused.
+  const trackMovement = (distance: number) => {
+    if (targetScale <= getZoomLimits().default) return;
+
+    moveSinceZoom += distance;
+
+    if (zoomStage === 1 && moveSinceZoom >= FIRST_ZOOM_OUT_THRESHOLD) {
+      // First stage: zoom out a bit, but not fully.
+      setZoomStage(2);
+      zoomTo(INTERMEDIATE_ZOOM);
+    } else if (zoomStage === 2 && moveSinceZoom >= SECOND_ZOOM_OUT_THRESHOLD) {
+      reset();
+    }
+  };
+
+  // Jump to a zoomed-out starting scale and ignore input until playIntro has
+  // finished.
+  const prepareIntro = (scale: number) => {
+    isIntroAnimating = true;
+    targetScale = scale;
+    view.scale = scale;
+    render();
+    emitChange();
+  };
+
+  const playIntro = (scale: number, onComplete?: () => void) => {
+    isIntroAnimating = true;
+
+    animator.to(view, {
+      scale,
+      duration: getDuration(INTRO_DURATION),
+      ease: "power3.out",
+      onComplete: () => {
+        targetScale = scale;
+        setZoomStage(0);
+        isIntroAnimating = false;
+        emitChange();
+        onComplete?.();
+      },
+    });
+  };
+
+  // Update the canvas and viewport sizes (in px) and move the camera back
+  // inside the resulting bounds, gliding there when `isAnimated`.
+  const setSizes = (
+    canvas: CanvasCameraSize,
+    viewport: CanvasCameraSize,
+    isAnimated = false
+  ) => {
+    canvasSize = canvas;
+    viewportSize = viewport;
+
+    const { minX, maxX, minY, maxY } = getPanBounds();
+
+    let nextX = isAnimated ? target.x : view.x;
+    let nextY = isAnimated ? target.y : view.y;
+
+    // On first load, start exactly at the visual centre of the canvas so the
+    // intro zoom lands in the middle.
+    if (nextX === 0 && nextY === 0) {
+      nextY = (viewport.height - canvas.height) / 2;
+    }
+
+    target.x = clamp(minX, maxX, nextX);
+    target.y = clamp(minY, maxY, nextY);
+
+    if (isAnimated) {
+      moveToTarget();
+    } else {
+      view.x = target.x;
+      view.y = target.y;
+      render();
+    }
+
+    emitChange();
+  };
+
+  // Swap animated moves for instant jumps (and back).
+  const setReducedMotion = (isReduced: boolean) => {
+    isReducedMotion = isReduced;
+    emitChange();
+  };
+
+  // Drop the pan bounds so the canvas can repeat endlessly (and back).
+  const setWrapping = (isWrap: boolean) => {
+    isWrapping = isWrap;
+    panBy(0, 0);
+  };
+
+  // Start rendering onto the given elements. Returns a function that stops.
+  const attach = (nextElements: CanvasCameraElements): (() => void) => {
+    elements = nextElements;
+    animator.set(elements.zoomLayer, { transformOrigin: "50% 50%" });
+    render();
+    animator.ticker.add(render);
+
+    return () => {
+      animator.ticker.remove(render);
+      if (elements === nextElements) elements = null;
+    };
+  };
+
+  return {
+    getState,
+    getPanBounds,
+    on,
+    panTo,
+    panBy,
+    dragTo,
+    zoomTo,
+    zoomAround,
+    stopZoom,
+    focusTile,
+    reset,
+    trackMovement,
+    prepareIntro,
+    playIntro,
+    setSizes,
+    setReducedMotion,
+    setWrapping,
+    attach,
+  };
+};
+
+export type CanvasCamera = ReturnType<typeof createCanvasCamera>;
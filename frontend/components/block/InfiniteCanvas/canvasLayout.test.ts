@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { getCanvasLayout, getWrapOffset } from "./canvasLayout";
+
+const items = [
+  1,
+  4 / 5,
+  16 / 9,
+  5 / 4,
+  1,
+  2 / 3,
+  3 / 2,
+  1,
+  16 / 9,
+  4 / 5,
+  1,
+].map((widthFactor) => ({ widthFactor }));
+
+describe("getCanvasLayout", () => {
+  it("puts exactly `columns` tiles in each justified row", () => {
+    const { rects } = getCanvasLayout(items, {
+      mode: "justified",
+      rowHeight: 15,
+      gap: 0.5,
+      columns: 4,
+    });
+
+    const rows = Array.from(new Set(rects.map((rect) => rect.y)));
+
+    expect(rows).toHaveLength(3);
+    rows.forEach((y, row) => {
+      const indexes = rects
+        .map((rect, index) => (rect.y === y ? index : -1))
+        .filter((index) => index !== -1);
+
+      expect(indexes).toEqual(
+        Array.from(
+          { length: Math.min(4, items.length - row * 4) },
+          (_, i) => row * 4 + i
+        )
+      );
+    });
+  });
+
+  it("fills every full justified row to the same width", () => {
+    const gap = 0.5;
+    const { rects, width } = getCanvasLayout(items, {
+      mode: "justified",
+      rowHeight: 15,
+      gap,
+      columns: 4,
+    });
+
+    [0, 4].forEach((start) => {
+      const last = rects[start + 3];
+      expect(rects[start].x).toBeCloseTo(gap / 2);
+      expect(last.x + last.width).toBeCloseTo(width - gap / 2);
+    });
+  });
+
+  it("fits every rect inside the reported bounds", () => {
+    (["justified", "masonry"] as const).forEach((mode) => {
+      const { rects, width, height } = getCanvasLayout(items, {
+        mode,
+        rowHeight: 15,
+        gap: 0.5,
+        columns: 4,
+      });
+
+      rects.forEach((rect) => {
+        expect(rect.x).toBeGreaterThanOrEqual(0);
+        expect(rect.y).toBeGreaterThanOrEqual(0);
+        expect(rect.x + rect.width).toBeLessThanOrEqual(width + 1e-9);
+        expect(rect.y + rect.height).toBeLessThanOrEqual(height + 1e-9);
+      });
+    });
+  });
+
+  it("lays masonry out the same for the same seed only", () => {
+    const options = { mode: "masonry" as const, rowHeight: 15, gap: 0.5 };
+    const layout = (seed: number) =>
+      getCanvasLayout(items, { ...options, columns: 4, seed });
+
+    expect(layout(7)).toEqual(layout(7));
+    expect(layout(7)).not.toEqual(layout(8));
+  });
+
+  it("doesn't use the seed for justified layouts", () => {
+    const layout = (seed: number) =>
+      getCanvasLayout(items, {
+        mode: "justified",
+        rowHeight: 15,
+        gap: 0.5,
+        columns: 4,
+        seed,
+      });
+
+    expect(layout(7)).toEqual(layout(8));
+  });
+
+  it("is empty without items", () => {
+    expect(
+      getCanvasLayout([], { rowHeight: 15, gap: 0.5, columns: 4 })
+    ).toEqual({ rects: [], width: 0, height: 0 });
+  });
+});
+
+describe("getWrapOffset", () => {
+  it("moves an item by whole periods to the repeat nearest the centre", () => {
+    expect(getWrapOffset(10, 10, 15, 100)).toBe(0);
+    expect(getWrapOffset(10, 10, 140, 100)).toBe(100);
+    expect(getWrapOffset(90, 10, -60, 100)).toBe(-200);
+  });
+
+  it("leaves items alone without a period", () => {
+    expect(getWrapOffset(10, 10, 500, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,191 @@
+// Pure layout engine for the infinite canvas. Given tile descriptors it
+// returns absolute positions plus the overall canvas bounds, so the
+// component never has to measure the DOM to know how big the canvas is. The
+// justified layout follows the order it's given (the canvas shuffles tiles
+// with its own seed beforehand); only masonry draws on `seed`.
+//
+// All values are unitless: the caller decides what one unit means (the
+// canvas uses vw so the layout scales with the viewport).
+
+// Justified rows are row-major, which the tile placement helpers rely on to
+// centre featured tiles and keep repeats apart. Masonry drops each tile into
+// the shortest column, so those guarantees only hold roughly there.
+export type CanvasLayoutMode = "justified" | "masonry";
+
+export type CanvasLayoutItem = {
+  // Width / height of the tile's media.
+  widthFactor: number;
+};
+
+export type CanvasLayoutRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type CanvasLayout = {
+  // One rect per input item, in the same order.
+  rects: CanvasLayoutRect[];
+  width: number;
+  height: number;
+};
+
+export type CanvasLayoutOptions = {
+  mode?: CanvasLayoutMode;
+  // Staggers the masonry column starts. Justified layouts don't use it.
+  seed?: number;
+  // Target tile height (justified) or the base for column width (masonry).
+  rowHeight: number;
+  // Space between tiles. Half of it is also used as padding around the edge.
+  gap: number;
+  // Tiles per row (justified) or the column count (masonry).
+  columns: number;
+  // How much each column start may vary (masonry), as a fraction of
+  // rowHeight. 0 gives a perfectly regular layout.
+  jitter?: number;
+};
+
+const DEFAULT_SEED = 42;
+const DEFAULT_JITTER = 0.25;
+
+// Simple LCG so the same seed always produces the same sequence, on the
+// server and in the browser.
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed;
+  const m = 0x80000000;
+  const a = 1103515245;
+  const c = 12345;
+
+  return () => {
+    state = (a * state + c) % m;
+    return state / (m - 1);
+  };
+};
+
+const getWidthFactor = (item: CanvasLayoutItem): number =>
+  item.widthFactor > 0 ? item.widthFactor : 1;
+
+// Every row holds exactly `columns` tiles, scaled so it spans the same width
+// as the others, so tile i sits in row i / columns. The tile placement
+// helpers rely on that to keep repeats apart. Rows still vary in height with
+// the mix of aspect ratios in them. A shorter last row keeps the target
+// height, unless that would overflow, and is centred.
+const getJustifiedLayout = (
+  items: CanvasLayoutItem[],
+  options: Required<CanvasLayoutOptions>
+): CanvasLayout => {
+  const { rowHeight, gap, columns } = options;
+  const rowCount = Math.max(1, Math.ceil(items.length / columns));
+  const totalWidth = items.reduce(
+    (total, item) => total + rowHeight * getWidthFactor(item) + gap,
+    0
+  );
+  const rowWidth = Math.max(rowHeight, totalWidth / rowCount - gap);
+
+  const rects: CanvasLayoutRect[] = [];
+  let y = gap / 2;
+
+  for (let start = 0; start < items.length; start += columns) {
+    const end = Math.min(start + columns, items.length);
+    const sumFactor = items
+      .slice(start, end)
+      .reduce((total, item) => total + getWidthFactor(item), 0);
+
+    // Height that makes items [start, end) exactly fill rowWidth.
+    const fittedHeight = (rowWidth - gap * (end - start - 1)) / sumFactor;
+    const isLastRow = end >= items.length;
+    const height = isLastRow ? Math.min(fittedHeight, rowHeight) : fittedHeight;
+    const usedWidth = height * sumFactor + gap * (end - start - 1);
+
+    let x = gap / 2 + (rowWidth - usedWidth) / 2;
+
+    for (let i = start; i < end; i += 1) {
+      const width = height * getWidthFactor(items[i]);
+      rects[i] = { x, y, width, height };
+      x += width + gap;
+    }
+
+    y += height + gap;
+  }
+
+  return {
+    rects,
+    width: rowWidth + gap,
+    height: y - gap / 2,
+  };
+};
+
+// Fixed-width columns; each tile drops into the shortest column. Column
+// starts are staggered so the top edge isn't a straight line.
+const getMasonryLayout = (
+  items: CanvasLayoutItem[],
+  options: Required<CanvasLayoutOptions>,
+  random: () => number
+): CanvasLayout => {
+  const { rowHeight, gap, jitter } = options;
+  const columns = Math.max(1, Math.min(options.columns, items.length));
+  const averageFactor =
+    items.reduce((total, item) => total + getWidthFactor(item), 0) /
+    Math.max(1, items.length);
+  const columnWidth = rowHeight * averageFactor;
+
+  const columnHeights = Array.from(
+    { length: columns },
+    () => gap / 2 + random() * rowHeight * jitter
+  );
+
+  const rects = items.map((item) => {
+    const column = columnHeights.indexOf(Math.min(...columnHeights));
+    const height = columnWidth / getWidthFactor(item);
+    const rect = {
+      x: gap / 2 + column * (columnWidth + gap),
+      y: columnHeights[column],
+      width: columnWidth,
+      height,
+    };
+
+    columnHeights[column] += height + gap;
+    return rect;
+  });
+
+  return {
+    rects,
+    width: columns * (columnWidth + gap),
+    height: Math.max(...columnHeights) - gap / 2,
+  };
+};
+
+export const getCanvasLayout = (
+  items: CanvasLayoutItem[],
+  options: CanvasLayoutOptions
+): CanvasLayout => {
+  if (items.length === 0) {
+    return { rects: [], width: 0, height: 0 };
+  }
+
+  const resolvedOptions: Required<CanvasLayoutOptions> = {
+    mode: options.mode ?? "justified",
+    seed: options.seed ?? DEFAULT_SEED,
+    rowHeight: options.rowHeight,
+    gap: options.gap,
+    columns: Math.max(1, Math.round(options.columns)),
+    jitter: options.jitter ?? DEFAULT_JITTER,
+  };
+  const random = createSeededRandom(resolvedOptions.seed);
+
+  return resolvedOptions.mode === "masonry"
+    ? getMasonryLayout(items, resolvedOptions, random)
+    : getJustifiedLayout(items, resolvedOptions);
+};
+
+// How far to move an item (start / size along one axis) by whole periods so
+// it sits as close as possible to `centre`. Repeating the layout every
+// `period` units this way tiles it endlessly with only one copy of each item.
+export const getWrapOffset = (
+  start: number,
+  size: number,
+  centre: number,
+  period: number
+): number =>
+  period > 0 ? period * Math.round((centre - (start + size / 2)) / period) : 0;
@@ -0,0 +1,33 @@
+// Pure helpers for choosing how large an image each tile asks for. Tiles are
+// scaled by the camera, so the width they need is their laid-out width times
+// the zoom, not their width on the page. Zoom is rounded up to a few fixed
+// tiers so images are only re-requested when it crosses one, not on every
+// wheel tick.
+
+// Ascending. Covers everything from the intro zoom to CANVAS_ZOOM_MAX.
+export const IMAGE_ZOOM_TIERS = [0.5, 1, 1.5, 2, 3];
+
+// Screens denser than this still get 2x images; the extra sharpness isn't
+// worth the download at canvas tile sizes.
+export const MAX_IMAGE_PIXEL_RATIO = 2;
+
+// Smallest tier that covers `scale`, or the largest tier past the end.
+export const getImageZoomTier = (scale: number): number =>
+  IMAGE_ZOOM_TIERS.find((tier) => tier >= scale) ??
+  IMAGE_ZOOM_TIERS[IMAGE_ZOOM_TIERS.length - 1];
+
+// `sizes` value for a tile `widthVw` wide at the given zoom tier. The image
+// should cover widthVw × zoom × pixel ratio device px, with the ratio capped.
+// Browsers multiply `sizes` by the real pixel ratio when picking from the
+// srcset (whose URLs come from sanityImageLoader), so divide it back out.
+export const getTileImageSizes = (
+  widthVw: number,
+  zoomTier: number,
+  pixelRatio: number
+): string => {
+  const ratio = pixelRatio > 0 ? pixelRatio : 1;
+  const cappedRatio = Math.min(ratio, MAX_IMAGE_PIXEL_RATIO);
+  const width = (widthVw * zoomTier * cappedRatio) / ratio;
+
+  return `${Math.ceil(width * 100) / 100}vw`;
+};
@@ -0,0 +1,241 @@
+import { describe, expect, it } from "vitest";
+import { createSeededRandom, getCanvasLayout } from "./canvasLayout";
+import {
+  getCentreOutIndexes,
+  getGridDistance,
+  pinToCentre,
+  spreadRepeats,
+} from "./tilePlacement";
+
+type TestTile = {
+  id: string;
+  widthFactor: number;
+};
+
+const getId = (tile: TestTile) => tile.id;
+
+const WIDTH_FACTORS = [1, 4 / 5, 5 / 4, 16 / 9, 2 / 3, 3 / 2];
+
+// `count` tiles cycling through `projects` distinct ids, shuffled with a
+// fixed seed the way the canvas fills itself from a small archive.
+const createTiles = (count: number, projects: number, seed = 1): TestTile[] => {
+  const random = createSeededRandom(seed);
+  const tiles = Array.from({ length: count }, (_, index) => ({
+    id: `project-${index % projects}`,
+    widthFactor: WIDTH_FACTORS[(index % projects) % WIDTH_FACTORS.length],
+  }));
+
+  for (let i = tiles.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [tiles[i], tiles[j]] = [tiles[j], tiles[i]];
+  }
+
+  return tiles;
+};
+
+const getClosestRepeat = (tiles: TestTile[], columns: number): number => {
+  let closest = Infinity;
+
+  tiles.forEach((tile, a) => {
+    tiles.forEach((other, b) => {
+      if (b <= a || other.id !== tile.id) return;
+      closest = Math.min(closest, getGridDistance(a, b, columns));
+    });
+  });
+
+  return closest;
+};
+
+const sortedIds = (tiles: TestTile[]) => tiles.map(getId).sort();
+
+describe("pinToCentre", () => {
+  it("moves the first tile for each key into the centre, in key order", () => {
+    const tiles = createTiles(25, 25);
+    const keys = ["project-20", "project-3", "project-11"];
+
+    const { tiles: result, pinnedIndexes } = pinToCentre(tiles, getId, keys, 5);
+    const centre = getCentreOutIndexes(25, 5);
+
+    expect(pinnedIndexes).toEqual(centre.slice(0, 3));
+    expect(pinnedIndexes.map((index) => result[index].id)).toEqual(keys);
+  });
+
+  it("swaps the displaced tile into the pinned tile's old slot", () => {
+    const tiles = createTiles(9, 9);
+    const centre = getCentreOutIndexes(9, 3)[0];
+    const source = centre === 0 ? 8 : 0;
+    const displaced = tiles[centre];
+
+    const { tiles: result } = pinToCentre(tiles, getId, [tiles[source].id], 3);
+
+    expect(result[centre]).toBe(tiles[source]);
+    expect(result[source]).toBe(displaced);
+    result.forEach((tile, index) => {
+      if (index !== centre && index !== source) {
+        expect(tile).toBe(tiles[index]);
+      }
+    });
+  });
+
+  it("skips keys without a tile and never pins the same tile twice", () => {
+    const tiles = createTiles(20, 4);
+
+    const { tiles: result, pinnedIndexes } = pinToCentre(
+      tiles,
+      getId,
+      ["missing", "project-1", "project-1", "project-2"],
+      5
+    );
+
+    expect(pinnedIndexes).toHaveLength(3);
+    expect(new Set(pinnedIndexes).size).toBe(3);
+    expect(pinnedIndexes.map((index) => result[index].id)).toEqual([
+      "project-1",
+      "project-1",
+      "project-2",
+    ]);
+    expect(sortedIds(result)).toEqual(sortedIds(tiles));
+  });
+
+  it("leaves the input untouched", () => {
+    const tiles = createTiles(16, 16);
+    const copy = [...tiles];
+
+    pinToCentre(tiles, getId, ["project-5"], 4);
+
+    expect(tiles).toEqual(copy);
+  });
+});
+
+describe("spreadRepeats", () => {
+  it("keeps repeats at least minDistance cells apart", () => {
+    const tiles = createTiles(100, 20);
+    expect(getClosestRepeat(tiles, 10)).toBeLessThan(3);
+
+    const result = spreadRepeats(tiles, getId, {
+      columns: 10,
+      minDistance: 3,
+    });
+
+    expect(getClosestRepeat(result, 10)).toBeGreaterThanOrEqual(3);
+    expect(sortedIds(result)).toEqual(sortedIds(tiles));
+  });
+
+  it("never moves locked tiles", () => {
+    const tiles = createTiles(100, 20);
+    const { tiles: pinned, pinnedIndexes } = pinToCentre(
+      tiles,
+      getId,
+      ["project-0", "project-1", "project-2"],
+      10
+    );
+
+    const result = spreadRepeats(pinned, getId, {
+      columns: 10,
+      minDistance: 3,
+      lockedIndexes: pinnedIndexes,
+    });
+
+    pinnedIndexes.forEach((index) => {
+      expect(result[index]).toBe(pinned[index]);
+    });
+    expect(getClosestRepeat(result, 10)).toBeGreaterThanOrEqual(3);
+  });
+
+  it("leaves tiles without repeats where they are", () => {
+    const tiles = createTiles(100, 100);
+
+    expect(
+      spreadRepeats(tiles, getId, { columns: 10, minDistance: 3 })
+    ).toEqual(tiles);
+  });
+
+  it.each([4, 5, 6, 7, 8, 9, 10, 11, 12])(
+    "never leaves copies touching with %i projects",
+    (projects) => {
+      [1, 2, 3, 4, 5].forEach((seed) => {
+        const tiles = createTiles(100, projects, seed);
+        const { tiles: pinned, pinnedIndexes } = pinToCentre(
+          tiles,
+          getId,
+          ["project-0", "project-1"],
+          10
+        );
+
+        const result = spreadRepeats(pinned, getId, {
+          columns: 10,
+          minDistance: 3,
+          lockedIndexes: pinnedIndexes,
+        });
+
+        expect(getClosestRepeat(result, 10)).toBeGreaterThanOrEqual(2);
+        expect(sortedIds(result)).toEqual(sortedIds(tiles));
+        pinnedIndexes.forEach((index) => {
+          expect(result[index]).toBe(pinned[index]);
+        });
+      });
+    }
+  );
+
+  it.each([10, 12, 15])(
+    "still keeps a one-tile buffer with %i projects",
+    (projects) => {
+      [1, 2, 3].forEach((seed) => {
+        const result = spreadRepeats(createTiles(100, projects, seed), getId, {
+          columns: 10,
+          minDistance: 3,
+        });
+
+        expect(getClosestRepeat(result, 10)).toBeGreaterThanOrEqual(3);
+      });
+    }
+  );
+
+  it("keeps every tile when the constraint can't be met", () => {
+    const tiles = createTiles(100, 2);
+
+    const result = spreadRepeats(tiles, getId, {
+      columns: 10,
+      minDistance: 3,
+    });
+
+    expect(sortedIds(result)).toEqual(sortedIds(tiles));
+  });
+
+  it("returns the tiles as they are when repeats may touch", () => {
+    const tiles = createTiles(30, 3);
+
+    expect(spreadRepeats(tiles, getId, { columns: 6, minDistance: 1 })).toEqual(
+      tiles
+    );
+  });
+
+  it("keeps repeats apart in the justified layout, not just the grid", () => {
+    const gap = 0.5;
+    const result = spreadRepeats(createTiles(100, 20), getId, {
+      columns: 10,
+      minDistance: 3,
+    });
+    const { rects } = getCanvasLayout(result, {
+      mode: "justified",
+      rowHeight: 15,
+      gap,
+      columns: 10,
+    });
+
+    // Neighbours are at most one gap apart, diagonals included.
+    const touches = (a: number, b: number) =>
+      rects[a].x - gap * 1.5 < rects[b].x + rects[b].width &&
+      rects[b].x - gap * 1.5 < rects[a].x + rects[a].width &&
+      rects[a].y - gap * 1.5 < rects[b].y + rects[b].height &&
+      rects[b].y - gap * 1.5 < rects[a].y + rects[a].height;
+
+    result.forEach((tile, a) => {
+      result.forEach((other, b) => {
+        if (b > a && other.id === tile.id) {
+          expect(touches(a, b)).toBe(false);
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,298 @@
+// Pure helpers for deciding which tile goes where on the canvas. Tiles are
+// treated as a grid of `columns` per row. The justified layout puts exactly
+// that many tiles in each row, so rows match the final layout and columns
+// only drift by a fraction of a tile as widths vary. That is enough to reason
+// about the centre of the canvas and the distance between tiles.
+
+export type GridPosition = {
+  row: number;
+  col: number;
+};
+
+export const getGridPosition = (
+  index: number,
+  columns: number
+): GridPosition => ({
+  row: Math.floor(index / columns),
+  col: index % columns,
+});
+
+// Tile indexes ordered from the middle of the grid outwards, so the first
+// few make up the centre ring where the intro zoom lands.
+export const getCentreOutIndexes = (
+  count: number,
+  columns: number
+): number[] => {
+  if (count === 0 || columns <= 0) return [];
+
+  const rows = Math.ceil(count / columns);
+  const centreRow = (rows - 1) / 2;
+  const centreCol = (Math.min(columns, count) - 1) / 2;
+
+  const getDistance = (index: number) => {
+    const { row, col } = getGridPosition(index, columns);
+    return Math.hypot(row - centreRow, col - centreCol);
+  };
+
+  return Array.from({ length: count }, (_, index) => index).sort(
+    (a, b) => getDistance(a) - getDistance(b) || a - b
+  );
+};
+
+// Chebyshev distance, so diagonal neighbours count as adjacent too.
+export const getGridDistance = (
+  a: number,
+  b: number,
+  columns: number
+): number => {
+  const positionA = getGridPosition(a, columns);
+  const positionB = getGridPosition(b, columns);
+  return Math.max(
+    Math.abs(positionA.row - positionB.row),
+    Math.abs(positionA.col - positionB.col)
+  );
+};
+
+// Moves the first tile matching each key into the centre ring, in key order,
+// so the first key sits closest to the middle. Whatever was in that slot
+// swaps into the pinned tile's old position, so the rest of the order keeps
+// its pseudo-random spread. Keys without a matching tile are skipped.
+export const pinToCentre = <T>(
+  tiles: T[],
+  getKey: (tile: T) => string | undefined,
+  keys: string[],
+  columns: number
+): { tiles: T[]; pinnedIndexes: number[] } => {
+  const result = [...tiles];
+  const slots = getCentreOutIndexes(result.length, columns);
+  const pinned = new Set<number>();
+
+  keys.forEach((key) => {
+    const slot = slots[pinned.size];
+    if (slot === undefined) return;
+
+    const source = result.findIndex(
+      (tile, index) => !pinned.has(index) && getKey(tile) === key
+    );
+    if (source === -1) return;
+
+    [result[slot], result[source]] = [result[source], result[slot]];
+    pinned.add(slot);
+  });
+
+  return { tiles: result, pinnedIndexes: Array.from(pinned) };
+};
+
+export type SpreadRepeatsOptions = {
+  columns: number;
+  // Repeats of the same key should be at least this many grid cells apart.
+  // 2 rules out direct neighbours, 3 also keeps a one-tile buffer, etc.
+  minDistance: number;
+  // Tiles that must not move (e.g. pinned featured projects).
+  lockedIndexes?: number[];
+};
+
+// Swap repair gives up after this many passes over the tiles.
+const SPREAD_REPEATS_MAX_PASSES = 3;
+
+// The search gives up after this many placements per tile.
+const SPREAD_REPEATS_SEARCH_BUDGET = 20;
+
+// Tiles are grouped by key. Tiles without a key get a group of their own
+// so they never clash.
+const getGroups = <T>(
+  tiles: T[],
+  getKey: (tile: T) => string | undefined
+): (string | number)[] => tiles.map((tile, index) => getKey(tile) ?? index);
+
+const hasClashes = (
+  groups: (string | number)[],
+  columns: number,
+  distance: number
+): boolean => {
+  const positions = new Map<string | number, number[]>();
+
+  return groups.some((group, index) => {
+    const others = positions.get(group) ?? [];
+    positions.set(group, [...others, index]);
+    return others.some(
+      (other) => getGridDistance(other, index, columns) < distance
+    );
+  });
+};
+
+// Fixes clashes by swapping a tile with another tile elsewhere on the grid,
+// as long as both end up far enough from their own copies, so most tiles
+// keep their shuffled position. A few passes are enough when there are
+// plenty of distinct keys.
+const swapApart = <T>(
+  tiles: T[],
+  groups: (string | number)[],
+  columns: number,
+  distance: number,
+  locked: Set<number>
+): { tiles: T[]; groups: (string | number)[] } => {
+  const result = [...tiles];
+  const resultGroups = [...groups];
+
+  // Where each group currently sits.
+  const positions = new Map<string | number, Set<number>>();
+  resultGroups.forEach((group, index) => {
+    positions.set(group, (positions.get(group) ?? new Set()).add(index));
+  });
+
+  // Would `group` be far enough from its other copies at `index`, ignoring
+  // the copy at `vacated` (the slot it's moving out of)?
+  const fitsAt = (group: string | number, index: number, vacated: number) =>
+    Array.from(positions.get(group) ?? []).every(
+      (other) =>
+        other === vacated ||
+        other === index ||
+        getGridDistance(other, index, columns) >= distance
+    );
+
+  const swap = (a: number, b: number) => {
+    const groupA = resultGroups[a];
+    const groupB = resultGroups[b];
+
+    positions.get(groupA)?.delete(a);
+    positions.get(groupA)?.add(b);
+    positions.get(groupB)?.delete(b);
+    positions.get(groupB)?.add(a);
+
+    [result[a], result[b]] = [result[b], result[a]];
+    [resultGroups[a], resultGroups[b]] = [resultGroups[b], resultGroups[a]];
+  };
+
+  for (let pass = 0; pass < SPREAD_REPEATS_MAX_PASSES; pass += 1) {
+    let hasChanged = false;
+
+    for (let i = 0; i < result.length; i += 1) {
+      const group = resultGroups[i];
+      if (locked.has(i) || fitsAt(group, i, -1)) continue;
+
+      // Look for a swap partner, starting just after this tile so the fix
+      // stays as local as possible.
+      for (let offset = 1; offset < result.length; offset += 1) {
+        const j = (i + offset) % result.length;
+        const otherGroup = resultGroups[j];
+
+        if (locked.has(j) || otherGroup === group) continue;
+        if (!fitsAt(otherGroup, i, j) || !fitsAt(group, j, i)) continue;
+
+        swap(i, j);
+        hasChanged = true;
+        break;
+      }
+    }
+
+    if (!hasChanged) break;
+  }
+
+  return { tiles: result, groups: resultGroups };
+};
+
+// Builds the order from scratch, one grid cell at a time, backtracking when
+// a cell can't be filled. Each cell takes the group with the most copies
+// left, then the one placed longest ago, which falls into staggered stripes
+// that work for as few as four groups at distance 2. Returns null when it
+// runs out of budget.
+const placeApart = <T>(
+  tiles: T[],
+  groups: (string | number)[],
+  columns: number,
+  distance: number,
+  locked: Set<number>
+): T[] | null => {
+  const result: T[] = [];
+  // Unplaced tiles per group, in their original order.
+  const queues = new Map<string | number, T[]>();
+  const positions = new Map<string | number, number[]>();
+
+  tiles.forEach((tile, index) => {
+    const group = groups[index];
+    if (!positions.has(group)) positions.set(group, []);
+
+    if (locked.has(index)) {
+      result[index] = tile;
+      positions.get(group)?.push(index);
+    } else {
+      queues.set(group, [...(queues.get(group) ?? []), tile]);
+    }
+  });
+
+  const queueKeys = Array.from(queues.keys());
+  let steps = 0;
+
+  const getLastPosition = (group: string | number) =>
+    positions.get(group)?.reduce((last, index) => Math.max(last, index), -1) ??
+    -1;
+
+  const fill = (index: number): boolean => {
+    if (index === tiles.length) return true;
+    if (locked.has(index)) return fill(index + 1);
+
+    steps += 1;
+    if (steps > tiles.length * SPREAD_REPEATS_SEARCH_BUDGET) return false;
+
+    const candidates = queueKeys
+      .filter(
+        (group) =>
+          (queues.get(group)?.length ?? 0) > 0 &&
+          (positions.get(group) ?? []).every(
+            (other) => getGridDistance(other, index, columns) >= distance
+          )
+      )
+      .sort(
+        (a, b) =>
+          (queues.get(b)?.length ?? 0) - (queues.get(a)?.length ?? 0) ||
+          getLastPosition(a) - getLastPosition(b)
+      );
+
+    for (const group of candidates) {
+      const queue = queues.get(group) ?? [];
+      const groupPositions = positions.get(group) ?? [];
+
+      result[index] = queue.shift() as T;
+      groupPositions.push(index);
+
+      if (fill(index + 1)) return true;
+
+      queue.unshift(result[index]);
+      groupPositions.pop();
+    }
+
+    return false;
+  };
+
+  return fill(0) ? result : null;
+};
+
+// Reorders tiles so repeats of the same key sit at least `minDistance` grid
+// cells apart, leaving locked tiles where they are. Repairing the shuffled
+// order is tried first so most tiles stay put; small archives fall back to a
+// search. When even that can't meet the distance (too few distinct keys),
+// the distance is relaxed one cell at a time, down to keeping copies from
+// touching. Only with fewer than four keys do touching copies remain.
+export const spreadRepeats = <T>(
+  tiles: T[],
+  getKey: (tile: T) => string | undefined,
+  options: SpreadRepeatsOptions
+): T[] => {
+  const { columns, minDistance, lockedIndexes = [] } = options;
+
+  if (columns <= 0 || minDistance <= 1) return [...tiles];
+
+  const locked = new Set(lockedIndexes);
+  const groups = getGroups(tiles, getKey);
+
+  for (let distance = minDistance; distance >= 2; distance -= 1) {
+    const swapped = swapApart(tiles, groups, columns, distance, locked);
+    if (!hasClashes(swapped.groups, columns, distance)) return swapped.tiles;
+
+    const placed = placeApart(tiles, groups, columns, distance, locked);
+    if (placed) return placed;
+  }
+
+  return swapApart(tiles, groups, columns, 2, locked).tiles;
+};
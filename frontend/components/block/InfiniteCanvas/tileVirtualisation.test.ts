@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { CanvasLayoutRect } from "./canvasLayout";
+import { getTilesInView, TileVirtualisationView } from "./tileVirtualisation";
+
+// 10 × 10 tiles, 9 units square with a 1 unit gap, in a 100 × 100 canvas.
+const rects: CanvasLayoutRect[] = Array.from({ length: 100 }, (_, index) => ({
+  x: (index % 10) * 10 + 0.5,
+  y: Math.floor(index / 10) * 10 + 0.5,
+  width: 9,
+  height: 9,
+}));
+const layout = { rects, width: 100, height: 100 };
+
+// A 1000 × 500 px viewport at 10 px per unit shows the full width and the
+// top five rows.
+const view: TileVirtualisationView = {
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  viewportWidth: 1000,
+  viewportHeight: 500,
+  unit: 10,
+  margin: 0,
+  isWrapping: false,
+};
+
+const getRows = (indexes: number[]) =>
+  Array.from(new Set(indexes.map((index) => Math.floor(index / 10))));
+
+describe("getTilesInView", () => {
+  it("only mounts the tiles inside the viewport", () => {
+    const { indexes } = getTilesInView(layout, view);
+
+    expect(indexes).toHaveLength(50);
+    expect(getRows(indexes)).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("releases tiles once the camera pans away from them", () => {
+    const { indexes } = getTilesInView(layout, { ...view, offsetY: -500 });
+
+    expect(getRows(indexes)).toEqual([5, 6, 7, 8, 9]);
+    expect(indexes).not.toContain(0);
+  });
+
+  it("keeps tiles within the margin", () => {
+    const { indexes } = getTilesInView(layout, { ...view, margin: 20 });
+
+    expect(getRows(indexes)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("mounts more tiles as the camera zooms out", () => {
+    expect(
+      getTilesInView(layout, { ...view, scale: 0.25 }).indexes
+    ).toHaveLength(100);
+  });
+
+  it("skips tiles without a rect", () => {
+    const sparse: CanvasLayoutRect[] = [];
+    sparse[3] = rects[3];
+    sparse[60] = rects[60];
+
+    expect(getTilesInView({ ...layout, rects: sparse }, view).indexes).toEqual([
+      3,
+    ]);
+  });
+
+  it("brings the nearest repeat into view when wrapping", () => {
+    const farRight = { ...view, offsetX: -2000 };
+
+    expect(getTilesInView(layout, farRight).indexes).toEqual([]);
+
+    const { indexes, wrapOffsets } = getTilesInView(layout, {
+      ...farRight,
+      isWrapping: true,
+    });
+
+    expect(getRows(indexes)).toEqual([0, 1, 2, 3, 4]);
+    expect(indexes).toHaveLength(50);
+    expect(wrapOffsets[0]).toEqual({ x: 200, y: 0 });
+  });
+
+  it("doesn't offset tiles when not wrapping", () => {
+    const { wrapOffsets } = getTilesInView(layout, {
+      ...view,
+      offsetX: -2000,
+    });
+
+    expect(wrapOffsets.every(({ x, y }) => x === 0 && y === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,93 @@
+// Pure helper behind the canvas virtualisation: which tiles are close enough
+// to the viewport to mount their media and, when the canvas wraps, which
+// repeat of each tile is nearest. Tiles it leaves out keep their (empty)
+// slot so they stay focusable, but drop their images and video players.
+
+import { CanvasLayoutRect, getWrapOffset } from "./canvasLayout";
+
+export type TileVirtualisationLayout = {
+  // Indexed by tile index; filtered-out tiles may have no rect.
+  rects: CanvasLayoutRect[];
+  width: number;
+  height: number;
+};
+
+export type TileVirtualisationView = {
+  // Camera offset in px. The canvas is centred horizontally.
+  offsetX: number;
+  offsetY: number;
+  scale: number;
+  viewportWidth: number;
+  viewportHeight: number;
+  // Px per layout unit (the canvas lays tiles out in vw).
+  unit: number;
+  // Extra room around the viewport that still counts as in view, in
+  // canvas px.
+  margin: number;
+  isWrapping: boolean;
+};
+
+export type TilesInView = {
+  // Tiles intersecting the viewport plus the margin, in tile index order.
+  indexes: number[];
+  // Offset (in layout units) that moves each tile to its repeat nearest the
+  // viewport. Always 0 unless wrapping.
+  wrapOffsets: { x: number; y: number }[];
+};
+
+export const getTilesInView = (
+  layout: TileVirtualisationLayout,
+  view: TileVirtualisationView
+): TilesInView => {
+  const {
+    offsetX,
+    offsetY,
+    scale,
+    viewportWidth,
+    viewportHeight,
+    unit,
+    margin,
+    isWrapping,
+  } = view;
+
+  // Visible region in canvas space. The zoom layer scales around the
+  // viewport centre and the canvas is translated by the camera offset.
+  const halfWidth = viewportWidth / (2 * scale);
+  const halfHeight = viewportHeight / (2 * scale);
+  const left = -halfWidth - offsetX - margin;
+  const right = halfWidth - offsetX + margin;
+  const top = viewportHeight / 2 - halfHeight - offsetY - margin;
+  const bottom = viewportHeight / 2 + halfHeight - offsetY + margin;
+
+  // Viewport centre in layout units, measured from the top left.
+  const centreX = layout.width / 2 - offsetX / unit;
+  const centreY = (viewportHeight / 2 - offsetY) / unit;
+
+  const indexes: number[] = [];
+  const wrapOffsets: { x: number; y: number }[] = [];
+
+  layout.rects.forEach((rect, index) => {
+    const wrapOffset = isWrapping
+      ? {
+          x: getWrapOffset(rect.x, rect.width, centreX, layout.width),
+          y: getWrapOffset(rect.y, rect.height, centreY, layout.height),
+        }
+      : { x: 0, y: 0 };
+    wrapOffsets[index] = wrapOffset;
+
+    // Layout x is measured from the left edge; the canvas is centred.
+    const tileLeft = (rect.x + wrapOffset.x - layout.width / 2) * unit;
+    const tileTop = (rect.y + wrapOffset.y) * unit;
+
+    if (
+      tileLeft + rect.width * unit >= left &&
+      tileLeft <= right &&
+      tileTop + rect.height * unit >= top &&
+      tileTop <= bottom
+    ) {
+      indexes.push(index);
+    }
+  });
+
+  return { indexes, wrapOffsets };
+};
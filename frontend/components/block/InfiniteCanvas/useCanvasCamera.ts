@@ -0,0 +1,38 @@
+import { RefObject, useEffect, useRef } from "react";
+import {
+  CanvasCamera,
+  CanvasCameraOptions,
+  createCanvasCamera,
+} from "./canvasCamera";
+
+type Options = CanvasCameraOptions & {
+  containerRef: RefObject<HTMLElement | null>;
+  zoomLayerRef: RefObject<HTMLElement | null>;
+};
+
+// Creates one camera for the lifetime of the component and renders it onto
+// the given elements once they mount. Options are read on the first render
+// only, so pass stable functions.
+const useCanvasCamera = (options: Options): CanvasCamera => {
+  const { containerRef, zoomLayerRef } = options;
+  const cameraRef = useRef<CanvasCamera | null>(null);
+
+  if (!cameraRef.current) {
+    cameraRef.current = createCanvasCamera(options);
+  }
+
+  const camera = cameraRef.current;
+
+  useEffect(() => {
+    if (!containerRef.current || !zoomLayerRef.current) return;
+
+    return camera.attach({
+      container: containerRef.current,
+      zoomLayer: zoomLayerRef.current,
+    });
+  }, [camera, containerRef, zoomLayerRef]);
+
+  return camera;
+};
+
+export default useCanvasCamera;
@@ -1,5 +1,6 @@
 import { useClickOutside } from "@/hooks/useClickOutside";
 import { SiteSettingsType } from "@/shared/types/types";
+import { MotionPreference, usePreferences } from "@/shared/context/preferences";
 import formatHTML from "@/utils/formatHTML";
 import pxToRem from "@/utils/pxToRem";
 import { AnimatePresence, motion } from "framer-motion";
@@ -60,6 +61,22 @@ const CellInner = styled.div`
 
 const Title = styled.h3``;
 
+const MotionOption = styled.button<{ $isActive: boolean }>`
+  cursor: pointer;
+  color: var(--colour-dark);
+  text-decoration: ${(props) => (props.$isActive ? "underline" : "none")};
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const motionOptions: { value: MotionPreference; label: string }[] = [
+  { value: "system", label: "System" },
+  { value: "reduced", label: "Reduced" },
+  { value: "full", label: "Full" },
+];
+
 const wrapperVariants = {
   hidden: {
     opacity: 0,
@@ -89,6 +106,8 @@ const InfoModal = (props: Props) => {
   const { biography, phone, email, instagramHandle, instagramLink } =
     siteSettings;
 
+  const { motion: motionPreference, setMotion } = usePreferences();
+
   const ref = useRef<HTMLDivElement>(null!);
   useClickOutside(
     ref,
@@ -107,6 +126,9 @@ const InfoModal = (props: Props) => {
           animate="visible"
           exit="hidden"
           className="info-modal-wrapper"
+          // Keeps the canvas from panning or zooming underneath the modal.
+          data-canvas-ignore
+          data-canvas-overlay
         >
           <Inner ref={ref}>
             {biography && (
@@ -145,6 +167,23 @@ const InfoModal = (props: Props) => {
                 )}
               </Cell>
             )}
+            <Cell>
+              <Title className="type-p">Motion:</Title>
+              <CellInner role="group" aria-label="Motion">
+                {motionOptions.map((option) => (
+                  <MotionOption
+                    key={option.value}
+                    type="button"
+                    className="type-p"
+                    aria-pressed={motionPreference === option.value}
+                    $isActive={motionPreference === option.value}
+                    onClick={() => setMotion(option.value)}
+                  >
+                    {option.label}
+                  </MotionOption>
+                ))}
+              </CellInner>
+            </Cell>
             <Cell>
               <Title className="type-p">Design & Development</Title>
               <CellInner>
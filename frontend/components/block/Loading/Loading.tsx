@@ -51,6 +51,7 @@ const Loading = () => {
   // overlay has fully dismissed so they can trigger intro animations.
   useEffect(() => {
     if (!isActive && typeof window !== "undefined") {
+      document.documentElement.dataset.loadingComplete = "true";
       window.dispatchEvent(new CustomEvent("loading-complete"));
     }
   }, [isActive]);
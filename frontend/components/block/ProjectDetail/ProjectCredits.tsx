@@ -0,0 +1,59 @@
+import Link from "next/link";
+import styled from "styled-components";
+import { CreditType } from "../../../shared/types/types";
+import pxToRem from "../../../utils/pxToRem";
+
+const ProjectCreditsWrapper = styled.dl`
+  display: grid;
+  grid-template-columns: minmax(0, 1fr) minmax(0, 2fr);
+  row-gap: ${pxToRem(4)};
+  column-gap: ${pxToRem(20)};
+  color: var(--colour-dark);
+
+  dt,
+  dd {
+    color: var(--colour-dark);
+  }
+
+  a {
+    color: var(--colour-dark);
+    text-decoration: none;
+
+    &:hover {
+      text-decoration: underline;
+    }
+  }
+`;
+
+const CreditRow = styled.div`
+  display: contents;
+`;
+
+type Props = {
+  credits: CreditType[];
+};
+
+const ProjectCredits = (props: Props) => {
+  const { credits } = props;
+
+  return (
+    <ProjectCreditsWrapper>
+      {credits.map((credit) => (
+        <CreditRow key={credit._key}>
+          <dt className="type-p">{credit.role}</dt>
+          <dd className="type-p">
+            {credit.link ? (
+              <Link href={credit.link} target="_blank" rel="noopener noreferrer">
+                {credit.name}
+              </Link>
+            ) : (
+              credit.name
+            )}
+          </dd>
+        </CreditRow>
+      ))}
+    </ProjectCreditsWrapper>
+  );
+};
+
+export default ProjectCredits;
@@ -0,0 +1,177 @@
+import styled from "styled-components";
+import MediaStack from "../../common/MediaStack";
+import RichText from "../../common/RichText";
+import ProjectGallery from "./ProjectGallery";
+import ProjectCredits from "./ProjectCredits";
+import ProjectPagination from "./ProjectPagination";
+import { ProjectDetailType } from "../../../shared/types/types";
+import getMediaAspectPadding from "../../../utils/getMediaAspectPadding";
+import pxToRem from "../../../utils/pxToRem";
+
+const ProjectDetailWrapper = styled.article`
+  display: flex;
+  flex-direction: column;
+  gap: ${pxToRem(40)};
+  max-width: ${pxToRem(1200)};
+  margin: 0 auto;
+  padding: ${pxToRem(140)} ${pxToRem(20)} ${pxToRem(80)};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    gap: ${pxToRem(24)};
+    padding: ${pxToRem(64)} ${pxToRem(16)} ${pxToRem(120)};
+  }
+`;
+
+const Intro = styled.header`
+  display: flex;
+  justify-content: space-between;
+  align-items: baseline;
+  gap: ${pxToRem(20)};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    flex-direction: column;
+    gap: ${pxToRem(8)};
+  }
+`;
+
+const Title = styled.h1`
+  color: var(--colour-dark);
+`;
+
+const Meta = styled.ul`
+  display: flex;
+  flex-wrap: wrap;
+  gap: ${pxToRem(20)};
+
+  li {
+    color: var(--colour-dark);
+  }
+`;
+
+const Hero = styled.div`
+  width: 100%;
+`;
+
+const Summary = styled.section`
+  display: grid;
+  grid-template-columns: minmax(0, 2fr) minmax(0, 1fr);
+  gap: ${pxToRem(20)};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    grid-template-columns: minmax(0, 1fr);
+  }
+
+  .content * {
+    color: var(--colour-dark);
+  }
+
+  .content p + p {
+    margin-top: 1em;
+  }
+`;
+
+const SummaryList = styled.ul`
+  display: flex;
+  flex-direction: column;
+  gap: ${pxToRem(4)};
+
+  li {
+    color: var(--colour-dark);
+  }
+`;
+
+const CreditsSection = styled.section`
+  display: flex;
+  flex-direction: column;
+  gap: ${pxToRem(12)};
+`;
+
+const SectionTitle = styled.h2`
+  color: var(--colour-dark);
+`;
+
+type Props = {
+  data: ProjectDetailType;
+};
+
+const ProjectDetail = (props: Props) => {
+  const {
+    title,
+    categories,
+    year,
+    client,
+    agency,
+    roles,
+    tags,
+    description,
+    media,
+    gallery,
+    credits,
+    previousProject,
+    nextProject,
+  } = props.data;
+
+  const hasDescription = !!description && description.length > 0;
+  const hasRoles = !!roles && roles.length > 0;
+  const hasTags = !!tags && tags.length > 0;
+  const hasGallery = !!gallery && gallery.length > 0;
+  const hasCredits = !!credits && credits.length > 0;
+
+  return (
+    <ProjectDetailWrapper>
+      <Intro>
+        <Title className="type-header">{title}</Title>
+        <Meta>
+          {categories?.map((category) => (
+            <li key={category._id} className="type-header">
+              {category.title}
+            </li>
+          ))}
+          {client && <li className="type-header">{client}</li>}
+          {agency && <li className="type-header">{agency}</li>}
+          {year && <li className="type-header">{year}</li>}
+        </Meta>
+      </Intro>
+      {media && (
+        <Hero>
+          <MediaStack
+            data={media}
+            alt={media.image?.alt || title}
+            sizes="(max-width: 768px) 100vw, 75vw"
+            aspectPadding={getMediaAspectPadding(media)}
+            isPriority
+            shouldPlayVideo
+          />
+        </Hero>
+      )}
+      {(hasDescription || hasRoles || hasTags) && (
+        <Summary>
+          <RichText data={hasDescription ? description : undefined} />
+          {(hasRoles || hasTags) && (
+            <SummaryList>
+              {roles?.map((role) => (
+                <li key={role} className="type-p">
+                  {role}
+                </li>
+              ))}
+              {hasTags && <li className="type-header">{tags.join(", ")}</li>}
+            </SummaryList>
+          )}
+        </Summary>
+      )}
+      {hasGallery && <ProjectGallery items={gallery} title={title} />}
+      {hasCredits && (
+        <CreditsSection>
+          <SectionTitle className="type-header">Credits</SectionTitle>
+          <ProjectCredits credits={credits} />
+        </CreditsSection>
+      )}
+      <ProjectPagination
+        previousProject={previousProject}
+        nextProject={nextProject}
+      />
+    </ProjectDetailWrapper>
+  );
+};
+
+export default ProjectDetail;
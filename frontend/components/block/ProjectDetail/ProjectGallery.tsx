@@ -0,0 +1,44 @@
+import styled from "styled-components";
+import MediaStack from "../../common/MediaStack";
+import { GalleryItemType } from "../../../shared/types/types";
+import getMediaAspectPadding from "../../../utils/getMediaAspectPadding";
+import pxToRem from "../../../utils/pxToRem";
+
+const ProjectGalleryWrapper = styled.ol`
+  display: flex;
+  flex-direction: column;
+  gap: ${pxToRem(20)};
+`;
+
+const GalleryItem = styled.li`
+  width: 100%;
+`;
+
+type Props = {
+  items: GalleryItemType[];
+  title: string;
+};
+
+const ProjectGallery = (props: Props) => {
+  const { items, title } = props;
+
+  return (
+    <ProjectGalleryWrapper aria-label={`${title} gallery`}>
+      {items.map((item, i) => (
+        <GalleryItem key={item._key}>
+          <MediaStack
+            data={item.media}
+            alt={item.media?.image?.alt || `${title} — ${i + 1}`}
+            sizes="(max-width: 768px) 100vw, 75vw"
+            aspectPadding={getMediaAspectPadding(item.media)}
+            lazyLoad
+            shouldPlayVideo
+            minResolution="1080p"
+          />
+        </GalleryItem>
+      ))}
+    </ProjectGalleryWrapper>
+  );
+};
+
+export default ProjectGallery;
@@ -0,0 +1,62 @@
+import Link from "next/link";
+import styled from "styled-components";
+import { ProjectLinkType } from "../../../shared/types/types";
+import pxToRem from "../../../utils/pxToRem";
+
+const ProjectPaginationWrapper = styled.nav`
+  display: flex;
+  justify-content: space-between;
+  gap: ${pxToRem(20)};
+
+  a {
+    color: var(--colour-dark);
+    text-decoration: none;
+
+    &:hover {
+      text-decoration: underline;
+    }
+  }
+`;
+
+const Placeholder = styled.span``;
+
+type Props = {
+  previousProject?: ProjectLinkType | null;
+  nextProject?: ProjectLinkType | null;
+};
+
+const ProjectPagination = (props: Props) => {
+  const { previousProject, nextProject } = props;
+
+  return (
+    <ProjectPaginationWrapper aria-label="Project navigation">
+      {previousProject?.slug?.current ? (
+        <Link
+          href={`/work/${previousProject.slug.current}`}
+          className="type-header"
+          rel="prev"
+        >
+          [Prev] {previousProject.title}
+        </Link>
+      ) : (
+        <Placeholder />
+      )}
+      <Link href="/work" className="type-header">
+        [Index]
+      </Link>
+      {nextProject?.slug?.current ? (
+        <Link
+          href={`/work/${nextProject.slug.current}`}
+          className="type-header"
+          rel="next"
+        >
+          {nextProject.title} [Next]
+        </Link>
+      ) : (
+        <Placeholder />
+      )}
+    </ProjectPaginationWrapper>
+  );
+};
+
+export default ProjectPagination;
@@ -0,0 +1,3 @@
+import ProjectDetail from "./ProjectDetail";
+
+export default ProjectDetail;
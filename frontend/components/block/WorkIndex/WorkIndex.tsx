@@ -0,0 +1,266 @@
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import styled from "styled-components";
+import MediaStack from "../../common/MediaStack";
+import {
+  matchesActiveCategories,
+  useGalleryFilter,
+} from "../../../shared/context/context";
+import { ProjectType, WorkSortOption } from "../../../shared/types/types";
+import getProjectFilterCategories from "../../../utils/getProjectFilterCategories";
+import formatHTML from "../../../utils/formatHTML";
+import pxToRem from "../../../utils/pxToRem";
+
+const WorkIndexWrapper = styled.section`
+  display: flex;
+  flex-direction: column;
+  gap: ${pxToRem(24)};
+  padding: 0 ${pxToRem(20)};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    padding: 0 ${pxToRem(16)};
+  }
+`;
+
+const Intro = styled.div`
+  max-width: ${pxToRem(870)};
+  color: var(--colour-dark);
+
+  * {
+    color: var(--colour-dark);
+  }
+`;
+
+const SortBar = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${pxToRem(12)};
+  color: var(--colour-dark);
+`;
+
+const SortButton = styled.button<{ $isActive: boolean }>`
+  color: var(--colour-dark);
+  text-decoration: ${(props) => (props.$isActive ? "underline" : "none")};
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const List = styled.ul`
+  display: grid;
+  grid-template-columns: repeat(4, minmax(0, 1fr));
+  gap: ${pxToRem(20)};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletMedium} {
+    grid-template-columns: repeat(3, minmax(0, 1fr));
+  }
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    grid-template-columns: repeat(2, minmax(0, 1fr));
+    gap: ${pxToRem(12)};
+  }
+`;
+
+const ProjectLink = styled(Link)`
+  display: flex;
+  flex-direction: column;
+  gap: ${pxToRem(8)};
+  text-decoration: none;
+  color: var(--colour-dark);
+
+  &:hover,
+  &:focus-visible {
+    .work-index-title {
+      text-decoration: underline;
+    }
+  }
+
+  &:focus-visible {
+    outline: 1px solid var(--colour-dark);
+    outline-offset: ${pxToRem(4)};
+  }
+`;
+
+const Thumbnail = styled.div`
+  position: relative;
+  aspect-ratio: 4 / 3;
+  overflow: hidden;
+
+  .media-wrapper {
+    height: 100%;
+  }
+`;
+
+const Details = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: ${pxToRem(12)};
+`;
+
+const Title = styled.h2`
+  color: var(--colour-dark);
+`;
+
+const Meta = styled.p`
+  flex-shrink: 0;
+  color: var(--colour-dark);
+`;
+
+const EmptyState = styled.p`
+  color: var(--colour-dark);
+`;
+
+const sortOptions: { value: WorkSortOption; label: string }[] = [
+  { value: "curated", label: "Curated" },
+  { value: "date", label: "Date" },
+  { value: "title", label: "Title" },
+  { value: "type", label: "Type" },
+];
+
+const formatTypes = (project: ProjectType) =>
+  (project.categories ?? []).map((category) => category.title).join(" + ");
+
+const compareTitles = (a: ProjectType, b: ProjectType) =>
+  (a.title ?? "").localeCompare(b.title ?? "");
+
+// Newest first; undated projects sink to the bottom.
+const compareDates = (a: ProjectType, b: ProjectType) =>
+  (b.year ?? 0) - (a.year ?? 0) || compareTitles(a, b);
+
+const sortProjects = (
+  projects: ProjectType[],
+  sortBy: WorkSortOption,
+  featuredProjectIds: string[]
+): ProjectType[] => {
+  const sorted = [...projects];
+
+  switch (sortBy) {
+    case "curated": {
+      // Featured projects in their CMS order, then everything else by date.
+      const getRank = (project: ProjectType) => {
+        const rank = featuredProjectIds.indexOf(project._id);
+        return rank === -1 ? Infinity : rank;
+      };
+
+      return sorted.sort(
+        (a, b) => getRank(a) - getRank(b) || compareDates(a, b)
+      );
+    }
+    case "title":
+      return sorted.sort(compareTitles);
+    case "type":
+      return sorted.sort(
+        (a, b) =>
+          formatTypes(a).localeCompare(formatTypes(b)) || compareTitles(a, b)
+      );
+    case "date":
+    default:
+      return sorted.sort(compareDates);
+  }
+};
+
+// Shared default so the memoised list isn't rebuilt on every render.
+const noFeaturedProjects: string[] = [];
+
+type Props = {
+  projects: ProjectType[];
+  intro?: string;
+  featuredProjectIds?: string[];
+  defaultSort?: WorkSortOption;
+};
+
+const WorkIndex = (props: Props) => {
+  const {
+    projects,
+    intro,
+    featuredProjectIds = noFeaturedProjects,
+    defaultSort = "date",
+  } = props;
+
+  // "Curated" only means something once projects have been picked.
+  const hasCuratedOrder = featuredProjectIds.length > 0;
+  const availableSortOptions = sortOptions.filter(
+    (option) => option.value !== "curated" || hasCuratedOrder
+  );
+
+  const [sortBy, setSortBy] = useState<WorkSortOption>(
+    defaultSort === "curated" && !hasCuratedOrder ? "date" : defaultSort
+  );
+  const { activeCategories } = useGalleryFilter();
+
+  const visibleProjects = useMemo(() => {
+    const filtered = (projects ?? []).filter(
+      (project) =>
+        !!project.slug?.current &&
+        matchesActiveCategories(
+          getProjectFilterCategories(project),
+          activeCategories
+        )
+    );
+
+    return sortProjects(filtered, sortBy, featuredProjectIds);
+  }, [projects, activeCategories, sortBy, featuredProjectIds]);
+
+  return (
+    <WorkIndexWrapper aria-labelledby="work-index-heading">
+      <h1 id="work-index-heading" className="sr-only">
+        Work
+      </h1>
+      {intro && (
+        <Intro dangerouslySetInnerHTML={{ __html: formatHTML(intro) }} />
+      )}
+      <SortBar role="group" aria-labelledby="work-index-sort-label">
+        <span id="work-index-sort-label" className="type-header">
+          Sort
+        </span>
+        {availableSortOptions.map((option) => (
+          <SortButton
+            key={option.value}
+            type="button"
+            className="type-header"
+            aria-pressed={sortBy === option.value}
+            $isActive={sortBy === option.value}
+            onClick={() => setSortBy(option.value)}
+          >
+            {option.label}
+          </SortButton>
+        ))}
+      </SortBar>
+      {visibleProjects.length > 0 ? (
+        <List>
+          {visibleProjects.map((project, i) => (
+            <li key={project._id}>
+              <ProjectLink href={`/work/${project.slug?.current}`}>
+                <Thumbnail>
+                  <MediaStack
+                    data={project.media}
+                    alt={project.media?.image?.alt || project.title}
+                    sizes="(max-width: 768px) 50vw, 25vw"
+                    isPriority={i < 4}
+                    lazyLoad={i >= 4}
+                    shouldPlayVideo={false}
+                  />
+                </Thumbnail>
+                <Details>
+                  <Title className="type-header work-index-title">
+                    {project.title}
+                  </Title>
+                  <Meta className="type-header">
+                    {[formatTypes(project), project.year].filter(Boolean).join(" — ")}
+                  </Meta>
+                </Details>
+              </ProjectLink>
+            </li>
+          ))}
+        </List>
+      ) : (
+        <EmptyState className="type-header" role="status">
+          No projects match the selected filters
+        </EmptyState>
+      )}
+    </WorkIndexWrapper>
+  );
+};
+
+export default WorkIndex;
@@ -0,0 +1,3 @@
+import WorkIndex from "./WorkIndex";
+
+export default WorkIndex;
@@ -1,11 +1,15 @@
 import { useState } from "react";
 import styled from "styled-components";
+import Link from "next/link";
+import { useRouter } from "next/router";
 import Logo from "../../svg/Logo";
 import pxToRem from "../../../utils/pxToRem";
 import DuoToneSwitchTrigger from "../../elements/DuoToneSwitchTrigger";
 import FiltersTrigger from "../../elements/FiltersTrigger";
 import { motion, useAnimationControls } from "framer-motion";
 import useViewportWidth from "@/hooks/useViewportWidth";
+import { usePreferences } from "@/shared/context/preferences";
+import { OPEN_COMMAND_PALETTE_EVENT } from "@/shared/events/events";
 
 const HeaderWrapper = styled.header`
   position: fixed;
@@ -77,6 +81,33 @@ const InfoTrigger = styled.button<{ $isHidden: boolean }>`
   }
 `;
 
+const SearchTrigger = styled.button<{ $isHidden: boolean }>`
+  color: var(--colour-dark);
+  display: ${(props) => (props.$isHidden ? "none" : "block")};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    display: none;
+  }
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
+const ViewLink = styled(Link)<{ $isHidden: boolean }>`
+  color: var(--colour-dark);
+  text-decoration: none;
+  display: ${(props) => (props.$isHidden ? "none" : "block")};
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    order: 1;
+  }
+
+  &:hover {
+    text-decoration: underline;
+  }
+`;
+
 type Props = {
   onInfoClick: () => void;
   infoIsOpen: boolean;
@@ -88,44 +119,30 @@ const Header = (props: Props) => {
 
   const [filtersIsOpen, setFiltersIsOpen] = useState(false);
 
+  const router = useRouter();
+  const isWorkIndex = router.pathname === "/work";
+  // The command palette only searches the canvas.
+  const isCanvas = router.pathname === "/";
+
   const viewport = useViewportWidth();
   const isMobile = viewport === "mobile" || viewport === "tabletPortrait";
 
   const logoControls = useAnimationControls();
+  const { colourMode, setColourMode, isReducedMotion } = usePreferences();
+
+  // The logo only spins when motion is allowed.
+  const canSpinLogo = !isReducedMotion;
 
   const handleLightSwitch = () => {
-    if (isMobile) {
+    if (isMobile && canSpinLogo) {
       logoControls.start({
         rotate: [0, 360],
         transition: { duration: 1, ease: "easeInOut" },
       });
     }
 
-    // Get the :root element and the body
-    const root = document.documentElement;
-    const body = document.body;
-
-    // Get the current values of --colour-light and --colour-dark
-    const currentLight =
-      getComputedStyle(root).getPropertyValue("--colour-light");
-    const currentDark =
-      getComputedStyle(root).getPropertyValue("--colour-dark");
-
-    // Swap them by setting the CSS variables
-    root.style.setProperty("--colour-light", currentDark);
-    root.style.setProperty("--colour-dark", currentLight);
-
-    // Toggle class on body for light/dark mode
-    if (body.classList.contains("dark-mode")) {
-      body.classList.remove("dark-mode");
-      body.classList.add("light-mode");
-    } else if (body.classList.contains("light-mode")) {
-      body.classList.remove("light-mode");
-      body.classList.add("dark-mode");
-    } else {
-      // If none set, assume starting light
-      body.classList.add("dark-mode");
-    }
+    // The preferences store swaps the colour variables and body classes.
+    setColourMode(colourMode === "dark" ? "light" : "dark");
   };
 
   return (
@@ -135,7 +152,7 @@ const Header = (props: Props) => {
         animate={logoControls}
         onClick={() => handleLightSwitch()}
         whileHover={
-          !isMobile
+          !isMobile && canSpinLogo
             ? {
                 rotate: 1080 * 2,
                 transition: {
@@ -161,6 +178,25 @@ const Header = (props: Props) => {
         >
           {infoIsOpen ? "Close" : "Info"}
         </InfoTrigger>
+        {isCanvas && (
+          <SearchTrigger
+            onClick={() =>
+              window.dispatchEvent(new CustomEvent(OPEN_COMMAND_PALETTE_EVENT))
+            }
+            className="type-header"
+            aria-keyshortcuts="Meta+K Control+K"
+            $isHidden={filtersIsOpen}
+          >
+            Search
+          </SearchTrigger>
+        )}
+        <ViewLink
+          href={isWorkIndex ? "/" : "/work"}
+          className="type-header"
+          $isHidden={filtersIsOpen}
+        >
+          {isWorkIndex ? "Canvas" : "List"}
+        </ViewLink>
         <FiltersTrigger onOpenChange={setFiltersIsOpen} />
         <DuoToneSwitchTrigger isHidden={filtersIsOpen} />
       </Nav>
@@ -1,6 +1,9 @@
 import Image from "next/image";
+import { useEffect, useRef, useState } from "react";
 import styled from "styled-components";
 import { MediaType } from "../../../shared/types/types";
+import { usePreferences } from "../../../shared/context/preferences";
+import pxToRem from "../../../utils/pxToRem";
 
 const ImageComponentWrapper = styled.div`
   position: relative;
@@ -12,12 +15,17 @@ const ImageComponentWrapper = styled.div`
     display: block;
     object-fit: cover;
   }
+
+  .media-image {
+    transition: opacity var(--transition-speed-slow) var(--transition-ease);
+  }
 `;
 
-// Note: previous versions of this component supported parallax and blur
-// placeholder effects using framer-motion. To keep the infinite canvas as
-// lightweight and performant as possible, we've removed those effects and now
-// render a single static image only.
+// The tiny LQIP is upscaled and blurred, so it reads as a soft version of
+// the image rather than a pixelated one.
+const Placeholder = styled.img`
+  filter: blur(${pxToRem(12)});
+`;
 
 type Props = {
   data: MediaType;
@@ -32,8 +40,14 @@ type Props = {
   // Total parallax travel as a percentage of container height (e.g., 20 => image moves ±10%)
   parallaxStrength?: number;
   aspectPadding?: string;
+  // Skip the LQIP, e.g. when another image already sits underneath.
+  noPlaceholder?: boolean;
 };
 
+// Sanity's base64 LQIP sits underneath while the real image loads, then the
+// image fades in over it once it has loaded and scrolled into view. The
+// placeholder is removed once the image is fully shown: the canvas duotone
+// blends each image with whatever is behind it, so it mustn't linger.
 const ImageComponent = (props: Props) => {
   const {
     data,
@@ -47,8 +61,33 @@ const ImageComponent = (props: Props) => {
     useImageParallax = false,
     parallaxStrength = 20,
     aspectPadding,
+    noPlaceholder = false,
   } = props;
 
+  const { isReducedMotion } = usePreferences();
+
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [isPlaceholderVisible, setIsPlaceholderVisible] = useState(true);
+  // The fade is only set up once mounted, so the server render (and anyone
+  // without JS) gets a visible image.
+  const [canFadeIn, setCanFadeIn] = useState(false);
+
+  const imageRef = useRef<HTMLImageElement | null>(null);
+
+  // Images the browser finished before hydration are shown as they are
+  // rather than hidden and faded in again.
+  useEffect(() => {
+    const image = imageRef.current;
+
+    if (image?.complete && image.naturalWidth > 0) {
+      setIsLoaded(true);
+      setIsPlaceholderVisible(false);
+      return;
+    }
+
+    setCanFadeIn(true);
+  }, []);
+
   // Set responsive image sizes
   // On mobile, the image should take up 38% of the viewport width
   // On tablet, the image should take up 20% of the viewport width
@@ -66,12 +105,42 @@ const ImageComponent = (props: Props) => {
       ? "eager"
       : "lazy";
 
+  const lqip =
+    useMobileData?.image?.asset?.metadata?.lqip ??
+    data?.image?.asset?.metadata?.lqip;
+  const hasPlaceholder = !noPlaceholder && !isFallback && !!lqip;
+
+  // Priority images are above the fold, so they never wait on a fade.
+  const shouldFadeIn =
+    canFadeIn && !noFadeInAnimation && !isReducedMotion && !isPriority;
+  const isShown = isLoaded && (inView || !shouldFadeIn);
+
+  const handleLoad = () => {
+    setIsLoaded(true);
+    if (!shouldFadeIn) setIsPlaceholderVisible(false);
+  };
+
   return (
     <ImageComponentWrapper
       className="media-wrapper"
       style={aspectPadding ? { paddingTop: aspectPadding } : undefined}
     >
+      {hasPlaceholder && isPlaceholderVisible && (
+        <Placeholder
+          src={lqip}
+          alt=""
+          aria-hidden="true"
+          style={{
+            position: "absolute",
+            inset: 0,
+            width: "100%",
+            height: "100%",
+          }}
+        />
+      )}
       <Image
+        ref={imageRef}
+        className="media-image"
         src={resolvedImageUrl}
         alt={resolvedAltText}
         priority={isPriority}
@@ -79,9 +148,16 @@ const ImageComponent = (props: Props) => {
         style={{
           objectFit: "cover",
           ...(isFallback ? { filter: "brightness(0)" } : null),
+          ...(shouldFadeIn ? { opacity: isShown ? 1 : 0 } : null),
         }}
         sizes={sizes}
         loading={loadingStrategy}
+        onLoad={handleLoad}
+        onTransitionEnd={(event) => {
+          if (event.propertyName === "opacity" && isShown) {
+            setIsPlaceholderVisible(false);
+          }
+        }}
       />
     </ImageComponentWrapper>
   );
@@ -2,7 +2,9 @@ import MuxPlayer from "@mux/mux-player-react/lazy";
 import styled from "styled-components";
 import ReactPlayer from "react-player";
 import Image from "next/image";
+import { useInView } from "react-intersection-observer";
 import { MediaType } from "../../../shared/types/types";
+import useVideoPlayback from "./useVideoPlayback";
 
 const VideoComponentWrapper = styled.div`
   position: relative;
@@ -50,13 +52,14 @@ const VideoComponentWrapper = styled.div`
 type Props = {
   data: MediaType;
   useMobileData?: MediaType;
-  inView: boolean;
   isPriority: boolean;
   noFadeInAnimation?: boolean;
   lazyLoad?: boolean;
   minResolution?: undefined | "2160p" | "1440p" | "1080p" | "720p" | "480p";
   aspectPadding?: string;
   shouldPlay?: boolean;
+  // How long (in ms) shouldPlay has to hold before a player is created.
+  playDelay?: number;
 };
 
 const normalizeExternalVideoUrl = (url: unknown): string | undefined => {
@@ -82,13 +85,13 @@ const VideoComponent = (props: Props) => {
   const {
     data,
     useMobileData,
-    inView,
     isPriority,
     noFadeInAnimation,
     lazyLoad,
     minResolution,
     aspectPadding,
     shouldPlay = false,
+    playDelay = 0,
   } = props;
   // Prefer mobile-specific video data when provided, otherwise fall back to
   // the main video. This avoids any window-size tracking and keeps the
@@ -147,13 +150,24 @@ const VideoComponent = (props: Props) => {
     },
   };
 
-  // Critical: only *mount* ReactPlayer when we actually intend to play.
-  // Otherwise YouTube/Vimeo will load for every in-view tile which is heavy.
-  const shouldRenderPlayer =
-    !playbackId && !!videoLink && (!lazyLoad || inView) && !!shouldPlay;
+  // Unlike MediaStack's inView this follows the video in and out of the
+  // viewport, so players scrolled away pause and free their slot.
+  const { ref, inView: isOnScreen } = useInView({ threshold: 0.2 });
+
+  // Players are only mounted once the shared playback manager hands this
+  // video a slot; until then (or after it's evicted) the poster shows.
+  const playbackStatus = useVideoPlayback(
+    (!!playbackId || !!videoLink) && isOnScreen && shouldPlay,
+    playDelay
+  );
+  const hasPlayer = playbackStatus === "playing" || playbackStatus === "paused";
+  const isPlaying = playbackStatus === "playing";
+
+  const shouldRenderPlayer = !playbackId && !!videoLink && hasPlayer;
 
   return (
     <VideoComponentWrapper
+      ref={ref}
       className="media-wrapper"
       style={aspectPadding ? { paddingTop: aspectPadding } : undefined}
     >
@@ -172,7 +186,7 @@ const VideoComponent = (props: Props) => {
         <ReactPlayer
           className="react-player"
           src={videoLink}
-          playing={inView && shouldPlay}
+          playing={isPlaying}
           loop={true}
           muted={true}
           controls={false}
@@ -188,7 +202,7 @@ const VideoComponent = (props: Props) => {
           onError={(e: any) => console.error("ReactPlayer error", e)}
         />
       )}
-      {playbackId && (
+      {playbackId && hasPlayer && (
         <MuxPlayer
           streamType="on-demand"
           playbackId={playbackId}
@@ -200,7 +214,7 @@ const VideoComponent = (props: Props) => {
           playsInline={true}
           poster={resolvedPosterUrl}
           minResolution={minResolution}
-          paused={!(inView && shouldPlay)}
+          paused={!isPlaying}
         />
       )}
     </VideoComponentWrapper>
@@ -13,6 +13,7 @@ type Props = {
   data: MediaType;
   isPriority?: boolean;
   noFadeInAnimation?: boolean;
+  noPlaceholder?: boolean;
   sizes?: undefined | string;
   alt?: string;
   lazyLoad?: boolean;
@@ -21,6 +22,8 @@ type Props = {
   useMobileData?: MediaType;
   aspectPadding?: string;
   shouldPlayVideo?: boolean;
+  // Delay (in ms) before a video player is created, e.g. for hover intent.
+  videoPlayDelay?: number;
 };
 
 const MediaStack = (props: Props) => {
@@ -28,6 +31,7 @@ const MediaStack = (props: Props) => {
     data,
     isPriority = false,
     noFadeInAnimation = false,
+    noPlaceholder = false,
     sizes = undefined,
     alt,
     lazyLoad = false,
@@ -36,6 +40,7 @@ const MediaStack = (props: Props) => {
     useMobileData,
     aspectPadding,
     shouldPlayVideo,
+    videoPlayDelay,
   } = props ?? {};
 
   // sizes="(max-width: 768px) 38vw, (max-width: 1024px) 20vw, 15vw"
@@ -54,13 +59,13 @@ const MediaStack = (props: Props) => {
         <VideoComponent
           data={data}
           useMobileData={useMobileData}
-          inView={inView}
           isPriority={isPriority}
           noFadeInAnimation={noFadeInAnimation}
           lazyLoad={lazyLoad}
           minResolution={minResolution}
           aspectPadding={aspectPadding}
           shouldPlay={shouldPlayVideo}
+          playDelay={videoPlayDelay}
         />
       )}
       {!useVideo && (
@@ -70,6 +75,7 @@ const MediaStack = (props: Props) => {
           isPriority={isPriority}
           inView={inView}
           noFadeInAnimation={noFadeInAnimation}
+          noPlaceholder={noPlaceholder}
           sizes={sizes}
           alt={alt}
           lazyLoad={lazyLoad}
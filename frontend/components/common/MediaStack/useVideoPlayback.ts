@@ -0,0 +1,37 @@
+import { useEffect, useId, useState } from "react";
+import videoPlaybackManager, { VideoPlaybackStatus } from "./videoPlayback";
+
+// Registers a video with the shared playback manager and returns whether it
+// currently gets a player. `delay` (in ms) is how long `shouldPlay` has to
+// stay true before a new player is created.
+const useVideoPlayback = (
+  shouldPlay: boolean,
+  delay = 0
+): VideoPlaybackStatus => {
+  const id = useId();
+  const [status, setStatus] = useState<VideoPlaybackStatus>(() =>
+    videoPlaybackManager.getStatus(id)
+  );
+
+  useEffect(() => {
+    const unsubscribe = videoPlaybackManager.subscribe(id, setStatus);
+    setStatus(videoPlaybackManager.getStatus(id));
+
+    return () => {
+      unsubscribe();
+      videoPlaybackManager.release(id);
+    };
+  }, [id]);
+
+  useEffect(() => {
+    if (shouldPlay) {
+      videoPlaybackManager.play(id, delay);
+    } else {
+      videoPlaybackManager.pause(id);
+    }
+  }, [id, shouldPlay, delay]);
+
+  return status;
+};
+
+export default useVideoPlayback;
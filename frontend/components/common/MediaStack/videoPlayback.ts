@@ -0,0 +1,168 @@
+// Shared limit on how many video players exist at once. Sweeping the cursor
+// across the canvas hovers many video tiles in a row, and each player
+// (especially Mux and YouTube / Vimeo embeds) is heavy to create. Players ask
+// the manager to play and only get mounted once it says so; the rest keep
+// showing their poster. Videos that lose their player, or find every slot
+// taken, wait and get the next slot that frees up.
+
+// Players mounted at the same time, playing or kept warm while paused.
+const MAX_PLAYERS = 3;
+
+// - idle: no player, show the poster
+// - pending: waiting out the delay, or for a slot, before getting a player
+// - playing / paused: player mounted
+export type VideoPlaybackStatus = "idle" | "pending" | "playing" | "paused";
+
+export type VideoPlaybackManagerOptions = {
+  maxPlayers?: number;
+};
+
+export const createVideoPlaybackManager = (
+  options: VideoPlaybackManagerOptions = {}
+) => {
+  const { maxPlayers = MAX_PLAYERS } = options;
+
+  const statuses = new Map<string, VideoPlaybackStatus>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const listeners = new Map<
+    string,
+    Set<(status: VideoPlaybackStatus) => void>
+  >();
+
+  // Ids with a mounted player, least recently played first.
+  let mounted: string[] = [];
+  // Ids that want to play, least recently asked first.
+  let requested: string[] = [];
+
+  const getStatus = (id: string): VideoPlaybackStatus =>
+    statuses.get(id) ?? "idle";
+
+  const setStatus = (id: string, status: VideoPlaybackStatus) => {
+    if (getStatus(id) === status) return;
+
+    if (status === "idle") {
+      statuses.delete(id);
+    } else {
+      statuses.set(id, status);
+    }
+
+    listeners.get(id)?.forEach((listener) => listener(status));
+  };
+
+  const clearTimer = (id: string) => {
+    const timer = timers.get(id);
+    if (timer === undefined) return;
+
+    clearTimeout(timer);
+    timers.delete(id);
+  };
+
+  // Unmount players over the limit, paused ones first, then whichever has
+  // been playing longest.
+  const evict = () => {
+    while (mounted.length > maxPlayers) {
+      const id =
+        mounted.find((mountedId) => getStatus(mountedId) === "paused") ??
+        mounted[0];
+
+      mounted = mounted.filter((mountedId) => mountedId !== id);
+      setStatus(id, requested.includes(id) ? "pending" : "idle");
+    }
+  };
+
+  const start = (id: string) => {
+    clearTimer(id);
+
+    mounted = [...mounted.filter((mountedId) => mountedId !== id), id];
+    setStatus(id, "playing");
+    evict();
+  };
+
+  // Hand free slots, or slots held by paused players, to videos still
+  // waiting for one, most recently asked first.
+  const fill = () => {
+    for (let i = requested.length - 1; i >= 0; i -= 1) {
+      const id = requested[i];
+      if (mounted.includes(id) || timers.has(id)) continue;
+
+      const hasSlot =
+        mounted.length < maxPlayers ||
+        mounted.some((mountedId) => getStatus(mountedId) === "paused");
+      if (!hasSlot) return;
+
+      start(id);
+    }
+  };
+
+  // Ask for a player. With a delay (e.g. for hover) the player is only
+  // created if nothing calls pause() before it runs out; a paused player
+  // resumes straight away since it already exists.
+  const play = (id: string, delay = 0) => {
+    requested = [...requested.filter((requestedId) => requestedId !== id), id];
+
+    const status = getStatus(id);
+    if (status === "playing") return;
+
+    if (status === "paused" || delay <= 0) {
+      start(id);
+      return;
+    }
+
+    if (status === "pending") return;
+
+    setStatus(id, "pending");
+    timers.set(
+      id,
+      setTimeout(() => start(id), delay)
+    );
+  };
+
+  // Stop playing but keep the player mounted until it's evicted, so hovering
+  // back onto a tile resumes instantly.
+  const pause = (id: string) => {
+    clearTimer(id);
+    requested = requested.filter((requestedId) => requestedId !== id);
+
+    const status = getStatus(id);
+    if (status === "pending") setStatus(id, "idle");
+    if (status === "playing") setStatus(id, "paused");
+
+    fill();
+  };
+
+  // Drop the player entirely, e.g. when its component unmounts.
+  const release = (id: string) => {
+    clearTimer(id);
+    requested = requested.filter((requestedId) => requestedId !== id);
+
+    mounted = mounted.filter((mountedId) => mountedId !== id);
+    setStatus(id, "idle");
+
+    fill();
+  };
+
+  const subscribe = (
+    id: string,
+    listener: (status: VideoPlaybackStatus) => void
+  ): (() => void) => {
+    const set = listeners.get(id) ?? new Set();
+    set.add(listener);
+    listeners.set(id, set);
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) listeners.delete(id);
+    };
+  };
+
+  return { getStatus, play, pause, release, subscribe };
+};
+
+export type VideoPlaybackManager = ReturnType<
+  typeof createVideoPlaybackManager
+>;
+
+// One manager for the whole page so the limit applies across components.
+const videoPlaybackManager = createVideoPlaybackManager();
+
+export default videoPlaybackManager;
@@ -1,6 +1,6 @@
-import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
 import styled from "styled-components";
+import { usePreferences } from "../../../shared/context/preferences";
 
 const DuoToneSwitchTriggerWrapper = styled.button<{ $isHidden: boolean }>`
   /* Basic reset */
@@ -54,22 +54,11 @@ type Props = {
 const DuoToneSwitchTrigger = (props: Props) => {
   const { isHidden } = props;
 
-  const [isOn, setIsOn] = useState<boolean>(true);
-
-  useEffect(() => {
-    if (typeof document === "undefined") return;
-
-    const body = document.body;
-
-    if (isOn) {
-      body.classList.remove("remove-duotone");
-    } else {
-      body.classList.add("remove-duotone");
-    }
-  }, [isOn]);
+  // The preferences store owns the `remove-duotone` body class.
+  const { isDuoTone: isOn, setIsDuoTone } = usePreferences();
 
   const handleToggle = () => {
-    setIsOn((prev) => !prev);
+    setIsDuoTone(!isOn);
   };
 
   return (
@@ -81,20 +81,18 @@ const CloseFilters = styled.button`
   text-decoration: none;
 `;
 
-const categories: FilterCategory[] = [
-  "All",
-  "Photography",
-  "Cinematography",
-  "Direction",
-];
-
 type Props = {
   onOpenChange?: (isOpen: boolean) => void;
+  // When enabled, categories toggle on and off so several can be combined and
+  // the menu stays open between clicks. Otherwise a click replaces the
+  // selection and closes the menu.
+  isMultiSelect?: boolean;
 };
 
 const FiltersTrigger = (props: Props) => {
-  const { onOpenChange } = props;
-  const { activeCategories, setActiveCategories } = useGalleryFilter();
+  const { onOpenChange, isMultiSelect = true } = props;
+  const { categories, activeCategories, toggleCategory, setActiveCategories } =
+    useGalleryFilter();
   const [isOpen, setIsOpen] = useState(false);
   const wrapperRef = useRef<HTMLDivElement>(null!);
 
@@ -106,13 +104,32 @@ const FiltersTrigger = (props: Props) => {
     onOpenChange?.(isOpen);
   }, [isOpen, onOpenChange]);
 
-  const selectedCategory: FilterCategory =
-    activeCategories.length > 0 && activeCategories[0] !== "All"
-      ? activeCategories[0]
-      : "All";
+  const options: { value: FilterCategory; label: string }[] = [
+    { value: "All", label: "All" },
+    ...categories.map((category) => ({
+      value: category.slug.current,
+      label: category.title,
+    })),
+  ];
+
+  // Summarise the selection in menu order, e.g. "Photography + Direction".
+  const selectedCategory: string =
+    options
+      .filter(
+        (option) =>
+          option.value !== "All" && activeCategories.includes(option.value)
+      )
+      .map((option) => option.label)
+      .join(" + ") || "All";
 
   const handleCategoryClick = (category: FilterCategory) => {
-    setActiveCategories([category]);
+    // "All" clears the selection in either mode.
+    if (isMultiSelect && category !== "All") {
+      toggleCategory(category);
+      return;
+    }
+
+    setActiveCategories(category === "All" ? [] : [category]);
     setIsOpen(false);
   };
 
@@ -144,19 +161,28 @@ const FiltersTrigger = (props: Props) => {
         </MobileTriggerButton>
       )}
       {isOpen && (
-        <DropdownContainer>
-          {categories.map((category) => {
-            const isActive = getIsActive(category);
+        <DropdownContainer
+          role="group"
+          aria-label={
+            isMultiSelect ? "Filter by categories" : "Filter by category"
+          }
+          // Keeps the canvas keys from acting while the menu is open.
+          data-canvas-ignore
+          data-canvas-overlay
+        >
+          {options.map((option) => {
+            const isActive = getIsActive(option.value);
 
             return (
               <FilterButton
-                key={category}
+                key={option.value}
                 type="button"
+                aria-pressed={isActive}
                 $isActive={isActive}
-                onClick={() => handleCategoryClick(category)}
+                onClick={() => handleCategoryClick(option.value)}
                 className="type-header"
               >
-                {category}
+                {option.label}
               </FilterButton>
             );
           })}
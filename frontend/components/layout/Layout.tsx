@@ -2,11 +2,13 @@ import styled from "styled-components";
 import Header from "../common/Header";
 import { ReactNode, useState, useRef } from "react";
 import { GalleryFilterProvider } from "../../shared/context/context";
+import { PreferencesProvider } from "../../shared/context/preferences";
 import InfoModal from "../block/InfoModal";
-import { SiteSettingsType } from "@/shared/types/types";
+import { CategoryType, SiteSettingsType } from "@/shared/types/types";
 import Loading from "../block/Loading";
 
 const siteSettings: SiteSettingsType = require("../../json/siteSettings.json");
+const categories: CategoryType[] = require("../../json/categories.json");
 
 const Main = styled.main``;
 
@@ -21,23 +23,25 @@ const Layout = (props: Props) => {
   const infoTriggerRef = useRef<HTMLButtonElement>(null);
 
   return (
-    <GalleryFilterProvider>
-      <Loading />
-      <Header
-        onInfoClick={() => setIsInfoModalOpen(!isInfoModalOpen)}
-        infoIsOpen={isInfoModalOpen}
-        infoTriggerRef={infoTriggerRef}
-      />
-      <InfoModal
-        isOpen={isInfoModalOpen}
-        onClose={() => setIsInfoModalOpen(false)}
-        siteSettings={siteSettings}
-        infoTriggerRef={infoTriggerRef}
-      />
-      {/* <ReactLenis root> */}
-      <Main>{children}</Main>
-      {/* </ReactLenis> */}
-    </GalleryFilterProvider>
+    <PreferencesProvider>
+      <GalleryFilterProvider categories={categories}>
+        <Loading />
+        <Header
+          onInfoClick={() => setIsInfoModalOpen(!isInfoModalOpen)}
+          infoIsOpen={isInfoModalOpen}
+          infoTriggerRef={infoTriggerRef}
+        />
+        <InfoModal
+          isOpen={isInfoModalOpen}
+          onClose={() => setIsInfoModalOpen(false)}
+          siteSettings={siteSettings}
+          infoTriggerRef={infoTriggerRef}
+        />
+        {/* <ReactLenis root> */}
+        <Main>{children}</Main>
+        {/* </ReactLenis> */}
+      </GalleryFilterProvider>
+    </PreferencesProvider>
   );
 };
 
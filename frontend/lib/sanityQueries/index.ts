@@ -91,26 +91,101 @@ export const siteSettingsQueryString = `
 	}
 `;
 
-export const homePageQueryString = `
-	*[_type == 'homePage'][0] {
-		...,
+export const seoString = `
+	seo {
+		title,
+		description,
 	}
 `;
 
 export const workPageQueryString = `
-	*[_type == "workPage"] {
-		...,
-		seoTitle,
-		seoDescription,
+	*[_type == "workPage"][0] {
+		${seoString},
+		intro,
+		"featuredProjectIds": featuredProjects[]._ref,
+		defaultSort,
 	}
 `;
 
+export const categoryString = `
+	_id,
+	title,
+	slug,
+	order,
+	colour,
+`;
+
+export const categoriesQueryString = `
+	*[_type == 'category' && defined(slug.current)] | order(order asc, title asc) {
+		${categoryString}
+	}
+`;
+
+export const projectFieldsString = `
+	_id,
+	title,
+	"categories": coalesce(
+		categories[]-> {
+			${categoryString}
+		},
+		*[_type == 'category' && slug.current in coalesce(^.types, [^.type])] | order(order asc) {
+			${categoryString}
+		}
+	),
+	year,
+	client,
+	agency,
+	roles,
+	tags,
+	slug,
+	${mediaString}
+`;
+
+// Every project, uncapped: the work index lists the full archive and the
+// canvas only mounts media for the tiles near the viewport.
 export const projectsQueryString = `
-	*[_type == 'project'] [0...100] {
-		_id,
-		title,
-		type,
-		slug,
-		${mediaString}
+	*[_type == 'project'] {
+		${projectFieldsString}
+	}
+`;
+
+export const homePageQueryString = `
+	*[_type == 'homePage'][0] {
+		${seoString},
+		intro,
+		featuredProjects[]-> {
+			${projectFieldsString}
+		},
+	}
+`;
+
+export const projectSlugsQueryString = `
+	*[_type == 'project' && defined(slug.current)] {
+		slug
+	}
+`;
+
+export const projectQueryString = `
+	*[_type == 'project' && slug.current == $slug][0] {
+		${projectFieldsString},
+		description,
+		"gallery": gallery[] {
+			_key,
+			${mediaString}
+		},
+		credits[] {
+			_key,
+			role,
+			name,
+			link,
+		},
+		"previousProject": *[_type == 'project' && defined(slug.current) && _createdAt < ^._createdAt] | order(_createdAt desc) [0] {
+			title,
+			slug,
+		},
+		"nextProject": *[_type == 'project' && defined(slug.current) && _createdAt > ^._createdAt] | order(_createdAt asc) [0] {
+			title,
+			slug,
+		},
 	}
 `;
@@ -30,6 +30,10 @@ const App = (props: Props) => {
   const router = useRouter();
   const routerEvents = router.events;
 
+  // Query params (e.g. `?project=` deep links on the canvas) are shallow
+  // state, so they shouldn't remount the page or replay the transition.
+  const pageKey = router.asPath.split(/[?#]/)[0];
+
   const handleExitComplete = (): void => {
     window.scrollTo(0, 0);
   };
@@ -65,7 +69,7 @@ const App = (props: Props) => {
           >
             <Component
               {...pageProps}
-              key={router.asPath}
+              key={pageKey}
               pageTransitionVariants={pageTransitionVariants}
             />
           </AnimatePresence>
@@ -1,5 +1,6 @@
 import Document, { Html, Head, Main, NextScript } from 'next/document';
 import { ServerStyleSheet } from 'styled-components';
+import { restorePreferencesScript } from '../shared/context/restorePreferencesScript';
 
 export default class CustomDocument extends Document {
 	static async getInitialProps(ctx) {
@@ -40,6 +41,9 @@ export default class CustomDocument extends Document {
 					<meta property="og:image" content="/og.jpg" />
 				</Head>
 				<body>
+					<script
+						dangerouslySetInnerHTML={{ __html: restorePreferencesScript }}
+					/>
 					<Main />
 					<NextScript />
 				</body>
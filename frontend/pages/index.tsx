@@ -1,6 +1,7 @@
 import styled from "styled-components";
 import { NextSeo } from "next-seo";
 import {
+  HomePageType,
   ProjectType,
   SiteSettingsType,
   TransitionsType,
@@ -8,21 +9,50 @@ import {
 import { motion } from "framer-motion";
 import client from "../client";
 import {
+  homePageQueryString,
   projectsQueryString,
   siteSettingsQueryString,
 } from "../lib/sanityQueries";
 import InfiniteCanvas from "@/components/block/InfiniteCanvas";
+import formatHTML from "../utils/formatHTML";
+import pxToRem from "../utils/pxToRem";
+import CommandPalette from "@/components/block/CommandPalette";
+import { CanvasWrapMode } from "@/components/block/InfiniteCanvas/InfiniteCanvas";
+
+// Chosen per deployment: set NEXT_PUBLIC_CANVAS_WRAP_MODE=wrap for a canvas
+// that repeats endlessly instead of stopping at its edges.
+const canvasWrapMode: CanvasWrapMode =
+  process.env.NEXT_PUBLIC_CANVAS_WRAP_MODE === "wrap" ? "wrap" : "finite";
 
 const PageWrapper = styled(motion.div)``;
 
+// Sits over the canvas without taking input, so panning works through it.
+const Intro = styled.div`
+  position: fixed;
+  left: ${pxToRem(20)};
+  bottom: ${pxToRem(20)};
+  z-index: 40;
+  max-width: ${pxToRem(420)};
+  pointer-events: none;
+
+  * {
+    color: var(--colour-dark);
+  }
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    display: none;
+  }
+`;
+
 type Props = {
+  data: HomePageType;
   projects: ProjectType[];
   siteSettings: SiteSettingsType;
   pageTransitionVariants: TransitionsType;
 };
 
 const Page = (props: Props) => {
-  const { siteSettings, projects, pageTransitionVariants } = props;
+  const { data, siteSettings, projects, pageTransitionVariants } = props;
 
   return (
     <PageWrapper
@@ -32,30 +62,53 @@ const Page = (props: Props) => {
       exit="hidden"
     >
       <NextSeo
-        title={siteSettings?.seoTitle || ""}
-        description={siteSettings?.seoDescription || ""}
+        title={data?.seo?.title || siteSettings?.seoTitle || ""}
+        description={
+          data?.seo?.description || siteSettings?.seoDescription || ""
+        }
       />
-      <InfiniteCanvas projects={projects} />
+      <InfiniteCanvas
+        projects={projects}
+        featuredProjects={data?.featuredProjects}
+        showMinimap
+        wrapMode={canvasWrapMode}
+      />
+      {data?.intro && (
+        <Intro
+          className="type-p"
+          dangerouslySetInnerHTML={{ __html: formatHTML(data.intro) }}
+        />
+      )}
+      <CommandPalette projects={projects} />
     </PageWrapper>
   );
 };
 
 export async function getStaticProps() {
-  const [siteSettingsResult, projectsResult] = await Promise.all([
-    client.fetch(siteSettingsQueryString),
-    client.fetch(projectsQueryString),
-  ]);
+  const [homePageResult, siteSettingsResult, projectsResult] =
+    await Promise.all([
+      client.fetch(homePageQueryString),
+      client.fetch(siteSettingsQueryString),
+      client.fetch(projectsQueryString),
+    ]);
 
-  const projects = (projectsResult ?? []) as ProjectType[];
+  const data = (homePageResult ?? {}) as HomePageType;
+  const featuredProjects = (data.featuredProjects ?? []).filter(Boolean);
 
-  // Fisher-Yates shuffle
-  for (let i = projects.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [projects[i], projects[j]] = [projects[j], projects[i]];
-  }
+  // The canvas shuffles tiles itself (seeded, so the order is stable between
+  // builds). Featured projects may fall outside the first page of results,
+  // so make sure they're always part of the list.
+  const projects = [
+    ...featuredProjects,
+    ...((projectsResult ?? []) as ProjectType[]).filter(
+      (project) =>
+        !featuredProjects.some((featured) => featured._id === project._id)
+    ),
+  ];
 
   return {
     props: {
+      data: { ...data, featuredProjects },
       siteSettings: (siteSettingsResult ?? {}) as SiteSettingsType,
       projects: projects,
     },
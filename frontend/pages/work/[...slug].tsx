@@ -1,12 +1,20 @@
 import styled from "styled-components";
 import client from "../../client";
-import { ProjectType, TransitionsType } from "../../shared/types/types";
+import {
+  ProjectDetailType,
+  SlugType,
+  TransitionsType,
+} from "../../shared/types/types";
 import { motion } from "framer-motion";
 import { NextSeo } from "next-seo";
-import PageBuilder from "../../components/common/PageBuilder";
+import {
+  projectQueryString,
+  projectSlugsQueryString,
+} from "../../lib/sanityQueries";
+import ProjectDetail from "../../components/block/ProjectDetail";
 
 type Props = {
-  data: ProjectType;
+  data: ProjectDetailType;
   pageTransitionVariants: TransitionsType;
 };
 
@@ -15,6 +23,14 @@ const PageWrapper = styled(motion.div)``;
 const Page = (props: Props) => {
   const { data, pageTransitionVariants } = props;
 
+  const description = [
+    data?.categories?.map((category) => category.title).join(" + "),
+    data?.client,
+    data?.year,
+  ]
+    .filter(Boolean)
+    .join(" — ");
+
   return (
     <PageWrapper
       variants={pageTransitionVariants}
@@ -22,36 +38,48 @@ const Page = (props: Props) => {
       animate="visible"
       exit="hidden"
     >
-      <NextSeo title={`TO BE FILLLED IN`} description={`TO BE FILLED IN`} />
-      {/* <PageBuilder data={data} /> */}
+      <NextSeo
+        title={data?.title || ""}
+        description={description}
+        openGraph={
+          data?.media?.image?.asset?.url
+            ? { images: [{ url: data.media.image.asset.url }] }
+            : undefined
+        }
+      />
+      <ProjectDetail data={data} />
     </PageWrapper>
   );
 };
 
 export async function getStaticPaths() {
-  const projectsQuery = `
-		*[_type == 'project'] [0...100] {
-			slug
-		}
-	`;
-
-  const allProjects = await client.fetch(projectsQuery);
+  const allProjects = await client.fetch<{ slug?: SlugType }[]>(
+    projectSlugsQueryString
+  );
 
   return {
-    paths: allProjects.map((item: any) => {
-      return `/work/${item?.slug?.current}`;
-    }),
-    fallback: true,
+    paths: (allProjects ?? [])
+      .filter((item) => !!item?.slug?.current)
+      .map((item) => `/work/${item.slug?.current}`),
+    fallback: "blocking",
   };
 }
 
 export async function getStaticProps({ params }: any) {
-  const projectQuery = `
-		*[_type == 'project' && slug.current == "${params.slug[0]}"][0] {
-			...,
-		}
-	`;
-  const data = await client.fetch(projectQuery);
+  const slug: string | undefined = params?.slug?.[0];
+
+  if (!slug) {
+    return { notFound: true };
+  }
+
+  const data = await client.fetch<ProjectDetailType | null>(
+    projectQueryString,
+    { slug }
+  );
+
+  if (!data?._id) {
+    return { notFound: true };
+  }
 
   return {
     props: {
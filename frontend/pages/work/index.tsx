@@ -12,12 +12,18 @@ import {
   workPageQueryString,
 } from "../../lib/sanityQueries";
 import pxToRem from "../../utils/pxToRem";
+import WorkIndex from "../../components/block/WorkIndex";
 
 const PageWrapper = styled(motion.div)`
   padding-top: var(--header-h);
   min-height: 150vh;
   padding-bottom: ${pxToRem(80)};
   background: var(--colour-white);
+
+  @media ${(props) => props.theme.mediaBreakpoints.tabletPortrait} {
+    padding-top: ${pxToRem(64)};
+    padding-bottom: ${pxToRem(120)};
+  }
 `;
 
 type Props = {
@@ -37,24 +43,35 @@ const Page = (props: Props) => {
       exit="hidden"
     >
       <NextSeo
-        title={data?.seoTitle || ""}
-        description={data?.seoDescription || ""}
+        title={data?.seo?.title || ""}
+        description={data?.seo?.description || ""}
+      />
+      <WorkIndex
+        projects={projects}
+        intro={data?.intro}
+        featuredProjectIds={data?.featuredProjectIds}
+        defaultSort={data?.defaultSort}
       />
     </PageWrapper>
   );
 };
 
 export async function getStaticProps() {
-  // const data = await client.fetch(workPageQueryString);
-  // const projects = await client.fetch(projectsQueryString);
+  const [data, projects] = await Promise.all([
+    client.fetch(workPageQueryString),
+    client.fetch(projectsQueryString),
+  ]);
 
-  const data = false;
-  const projects = false;
+  const workPage = (data ?? {}) as WorkPageType;
 
   return {
     props: {
-      data,
-      projects,
+      // Skip empty references left in the CMS array.
+      data: {
+        ...workPage,
+        featuredProjectIds: (workPage.featuredProjectIds ?? []).filter(Boolean),
+      },
+      projects: (projects ?? []) as ProjectType[],
     },
   };
 }
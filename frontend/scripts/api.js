@@ -31,6 +31,19 @@ if (!projectId || !dataset) {
   });
 }
 
+const writeJson = (file, data) => {
+  const dir = path.join(process.cwd(), 'json');
+  const jsonData = JSON.stringify(data);
+
+  // Ensure the output directory exists
+  fs.mkdirSync(dir, { recursive: true });
+
+  fs.writeFile(path.join(dir, file), jsonData, 'utf8', () => {
+    // eslint-disable-next-line no-console
+    console.log(`Wrote ${file} file.`);
+  });
+};
+
 const getSiteData = async () => {
   const query = `
         *[_type == "siteSettings"][0] {
@@ -51,26 +64,46 @@ const getSiteData = async () => {
 
   try {
     const data = await client.fetch(query);
-    const dir = path.join(process.cwd(), 'json');
-    const file = 'siteSettings.json';
-    const jsonData = JSON.stringify(data);
+    writeJson('siteSettings.json', data);
+
+    return data;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error('Error fetching site data:', error);
+    return [];
+  }
+};
+
+// Categories drive the filters menu in the (page-independent) header, so
+// they are baked into JSON at build time alongside the site settings.
+const getCategories = async () => {
+  const query = `
+        *[_type == "category" && defined(slug.current)] | order(order asc, title asc) {
+            _id,
+            title,
+            slug,
+            order,
+            colour,
+        }
+    `;
 
-    // Ensure the output directory exists
-    fs.mkdirSync(dir, { recursive: true });
+  if (!client) {
+    return [];
+  }
 
-    fs.writeFile(path.join(dir, file), jsonData, 'utf8', () => {
-      // eslint-disable-next-line no-console
-      console.log(`Wrote ${file} file.`);
-    });
+  try {
+    const data = await client.fetch(query);
+    writeJson('categories.json', data);
 
     return data;
   } catch (error) {
     // eslint-disable-next-line no-console
-    console.error('Error fetching site data:', error);
+    console.error('Error fetching categories:', error);
     return [];
   }
 };
 
 module.exports = {
   getSiteData,
+  getCategories,
 };
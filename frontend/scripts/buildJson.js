@@ -3,7 +3,7 @@
 const api = require('./api');
 
 const buildSiteData = async () => {
-	await api.getSiteData();
+	await Promise.all([api.getSiteData(), api.getCategories()]);
 };
 
 buildSiteData();
@@ -1,12 +1,26 @@
-import { createContext, ReactNode, useContext, useMemo, useState } from "react";
+import { createContext, ReactNode, useContext, useMemo } from "react";
+import { CategoryType } from "../types/types";
+import { usePreferences } from "./preferences";
 
-export type FilterCategory =
-  | "All"
-  | "Photography"
-  | "Direction"
-  | "Cinematography";
+// Category slugs, as defined by `category` documents in Sanity. "All" is a
+// UI-only value meaning no filter is applied.
+export type FilterCategory = string;
+
+// A project is shown when no filter is active or when any of its categories
+// is selected.
+export const matchesActiveCategories = (
+  categories: FilterCategory[],
+  activeCategories: FilterCategory[]
+): boolean => {
+  if (activeCategories.length === 0 || activeCategories.includes("All")) {
+    return true;
+  }
+
+  return categories.some((category) => activeCategories.includes(category));
+};
 
 type GalleryFilterContextValue = {
+  categories: CategoryType[];
   activeCategories: FilterCategory[];
   toggleCategory: (category: FilterCategory) => void;
   setActiveCategories: (categories: FilterCategory[]) => void;
@@ -18,31 +32,47 @@ const GalleryFilterContext = createContext<
 
 type ProviderProps = {
   children: ReactNode;
+  categories: CategoryType[];
 };
 
 export const GalleryFilterProvider = (props: ProviderProps) => {
-  const { children } = props;
-  const [activeCategories, setActiveCategories] = useState<FilterCategory[]>(
-    []
+  const { children, categories } = props;
+
+  // The selection lives in the preferences store so it survives reloads and
+  // can be shared through the URL.
+  const { categories: storedCategories, setCategories: setActiveCategories } =
+    usePreferences();
+
+  // Ignore stale or mistyped slugs (e.g. from an old shared link) so they
+  // can't hide every tile.
+  const activeCategories = useMemo(
+    () =>
+      storedCategories.filter((slug) =>
+        categories.some((category) => category.slug?.current === slug)
+      ),
+    [storedCategories, categories]
   );
 
   const toggleCategory = (category: FilterCategory) => {
     setActiveCategories((prev) => {
-      if (prev.includes(category)) {
-        return prev.filter((c) => c !== category);
+      const selected = prev.filter((c) => c !== "All");
+
+      if (selected.includes(category)) {
+        return selected.filter((c) => c !== category);
       }
 
-      return [...prev, category];
+      return [...selected, category];
     });
   };
 
   const value: GalleryFilterContextValue = useMemo(
     () => ({
+      categories,
       activeCategories,
       toggleCategory,
       setActiveCategories,
     }),
-    [activeCategories]
+    [categories, activeCategories, setActiveCategories]
   );
 
   return (
@@ -0,0 +1,282 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { useRouter } from "next/router";
+import { MotionConfig } from "framer-motion";
+import { theme } from "../../styles/theme";
+import {
+  PREFERENCE_PARAMS,
+  PREFERENCES_STORAGE_KEY,
+} from "./restorePreferencesScript";
+
+export type ColourMode = "light" | "dark";
+
+// "system" follows the prefers-reduced-motion media query; the other two
+// override it.
+export type MotionPreference = "system" | "reduced" | "full";
+
+export type Preferences = {
+  categories: string[];
+  isDuoTone: boolean;
+  colourMode: ColourMode;
+  motion: MotionPreference;
+};
+
+const defaultPreferences: Preferences = {
+  categories: [],
+  isDuoTone: true,
+  colourMode: "light",
+  motion: "system",
+};
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+const readStoredPreferences = (): Partial<Preferences> => {
+  try {
+    return JSON.parse(
+      window.localStorage.getItem(PREFERENCES_STORAGE_KEY) || "{}"
+    );
+  } catch {
+    return {};
+  }
+};
+
+// URL params win over localStorage so shared links always look the same for
+// the recipient. Motion is a personal accessibility setting, so it is never
+// shared and only comes from localStorage.
+const readPreferences = (query: Record<string, unknown>): Preferences => {
+  const stored = readStoredPreferences();
+  const filterParam = query[PREFERENCE_PARAMS.categories];
+  const duoToneParam = query[PREFERENCE_PARAMS.isDuoTone];
+  const modeParam = query[PREFERENCE_PARAMS.colourMode];
+
+  const categories =
+    typeof filterParam === "string"
+      ? filterParam.split(",").filter(Boolean)
+      : Array.isArray(stored.categories)
+        ? stored.categories.filter((c) => typeof c === "string")
+        : defaultPreferences.categories;
+
+  const isDuoTone =
+    typeof duoToneParam === "string"
+      ? duoToneParam !== "off"
+      : typeof stored.isDuoTone === "boolean"
+        ? stored.isDuoTone
+        : defaultPreferences.isDuoTone;
+
+  const colourMode =
+    modeParam === "dark" || modeParam === "light"
+      ? modeParam
+      : stored.colourMode === "dark" || stored.colourMode === "light"
+        ? stored.colourMode
+        : defaultPreferences.colourMode;
+
+  const motion =
+    stored.motion === "reduced" || stored.motion === "full"
+      ? stored.motion
+      : defaultPreferences.motion;
+
+  return { categories, isDuoTone, colourMode, motion };
+};
+
+const getPreferenceParams = (
+  preferences: Preferences
+): Record<string, string | undefined> => ({
+  [PREFERENCE_PARAMS.categories]:
+    preferences.categories.length > 0
+      ? preferences.categories.join(",")
+      : undefined,
+  [PREFERENCE_PARAMS.isDuoTone]: preferences.isDuoTone ? undefined : "off",
+  [PREFERENCE_PARAMS.colourMode]:
+    preferences.colourMode === "dark" ? preferences.colourMode : undefined,
+});
+
+const applyPreferenceClasses = (preferences: Preferences) => {
+  const root = document.documentElement;
+  const body = document.body;
+  const isDark = preferences.colourMode === "dark";
+
+  // Dark mode swaps the two brand colours rather than introducing new ones.
+  root.style.setProperty(
+    "--colour-light",
+    isDark ? theme.colours.dark : theme.colours.light
+  );
+  root.style.setProperty(
+    "--colour-dark",
+    isDark ? theme.colours.light : theme.colours.dark
+  );
+
+  body.classList.toggle("dark-mode", isDark);
+  body.classList.toggle("light-mode", !isDark);
+  body.classList.toggle("remove-duotone", !preferences.isDuoTone);
+};
+
+type PreferencesContextValue = Preferences & {
+  setCategories: (
+    categories: string[] | ((prev: string[]) => string[])
+  ) => void;
+  setIsDuoTone: (isDuoTone: boolean) => void;
+  setColourMode: (colourMode: ColourMode) => void;
+  setMotion: (motion: MotionPreference) => void;
+  // The motion preference resolved against the system setting.
+  isReducedMotion: boolean;
+};
+
+const PreferencesContext = createContext<PreferencesContextValue | undefined>(
+  undefined
+);
+
+type ProviderProps = {
+  children: ReactNode;
+};
+
+export const PreferencesProvider = (props: ProviderProps) => {
+  const { children } = props;
+  const router = useRouter();
+
+  const [preferences, setPreferences] =
+    useState<Preferences>(defaultPreferences);
+  const [isRestored, setIsRestored] = useState<boolean>(false);
+  const [prefersReducedMotion, setPrefersReducedMotion] =
+    useState<boolean>(false);
+
+  // Follow the system setting live, e.g. when it is toggled in the OS.
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const handleChange = () => setPrefersReducedMotion(query.matches);
+
+    handleChange();
+    query.addEventListener("change", handleChange);
+
+    return () => {
+      query.removeEventListener("change", handleChange);
+    };
+  }, []);
+
+  // Server render and hydration use the defaults; once the router knows the
+  // query, restore the real preferences. Body classes are already correct at
+  // this point thanks to restorePreferencesScript.
+  useEffect(() => {
+    if (!router.isReady || isRestored) return;
+
+    setPreferences(readPreferences(router.query));
+    setIsRestored(true);
+  }, [router.isReady, router.query, isRestored]);
+
+  useEffect(() => {
+    if (!isRestored) return;
+
+    applyPreferenceClasses(preferences);
+
+    try {
+      window.localStorage.setItem(
+        PREFERENCES_STORAGE_KEY,
+        JSON.stringify(preferences)
+      );
+    } catch {
+      // Storage can be unavailable (e.g. private mode); the URL still works.
+    }
+  }, [preferences, isRestored]);
+
+  // Keep the URL in step with the preferences, including after client-side
+  // navigation drops the params. Shallow so no data is refetched.
+  useEffect(() => {
+    if (!isRestored || !router.isReady) return;
+
+    const params = getPreferenceParams(preferences);
+    const query = { ...router.query };
+    let hasChanged = false;
+
+    Object.entries(params).forEach(([key, value]) => {
+      if (query[key] === value) return;
+
+      hasChanged = true;
+      if (value === undefined) {
+        delete query[key];
+      } else {
+        query[key] = value;
+      }
+    });
+
+    if (!hasChanged) return;
+
+    router.replace({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+      scroll: false,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [preferences, isRestored, router.isReady, router.asPath]);
+
+  const setCategories = useCallback(
+    (categories: string[] | ((prev: string[]) => string[])) => {
+      setPreferences((prev) => ({
+        ...prev,
+        categories:
+          typeof categories === "function"
+            ? categories(prev.categories)
+            : categories,
+      }));
+    },
+    []
+  );
+
+  const setIsDuoTone = useCallback((isDuoTone: boolean) => {
+    setPreferences((prev) => ({ ...prev, isDuoTone }));
+  }, []);
+
+  const setColourMode = useCallback((colourMode: ColourMode) => {
+    setPreferences((prev) => ({ ...prev, colourMode }));
+  }, []);
+
+  const setMotion = useCallback((motion: MotionPreference) => {
+    setPreferences((prev) => ({ ...prev, motion }));
+  }, []);
+
+  const isReducedMotion =
+    preferences.motion === "reduced" ||
+    (preferences.motion === "system" && prefersReducedMotion);
+
+  const value: PreferencesContextValue = useMemo(
+    () => ({
+      ...preferences,
+      setCategories,
+      setIsDuoTone,
+      setColourMode,
+      setMotion,
+      isReducedMotion,
+    }),
+    [
+      preferences,
+      setCategories,
+      setIsDuoTone,
+      setColourMode,
+      setMotion,
+      isReducedMotion,
+    ]
+  );
+
+  // framer-motion skips transform and layout animations when reduced.
+  return (
+    <PreferencesContext.Provider value={value}>
+      <MotionConfig reducedMotion={isReducedMotion ? "always" : "never"}>
+        {children}
+      </MotionConfig>
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = (): PreferencesContextValue => {
+  const context = useContext(PreferencesContext);
+
+  if (!context) {
+    throw new Error("usePreferences must be used within PreferencesProvider");
+  }
+
+  return context;
+};
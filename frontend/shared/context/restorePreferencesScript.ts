@@ -0,0 +1,43 @@
+import { theme } from "../../styles/theme";
+
+export const PREFERENCES_STORAGE_KEY = "preferences";
+
+// Query params used to share preferences. Only non-default values are written
+// so URLs stay clean for first-time visitors.
+export const PREFERENCE_PARAMS = {
+  categories: "filter",
+  isDuoTone: "duotone",
+  colourMode: "mode",
+} as const;
+
+// Inlined at the top of <body> by _document so stored colour mode and duotone
+// are applied before first paint. Mirrors readPreferences and
+// applyPreferenceClasses in ./preferences without depending on the bundle.
+// Kept free of React, Next and framer-motion imports so _document doesn't
+// pull them in just for this string.
+export const restorePreferencesScript = `
+(function () {
+  try {
+    var stored = {};
+    try {
+      stored = JSON.parse(window.localStorage.getItem("${PREFERENCES_STORAGE_KEY}") || "{}") || {};
+    } catch (e) {}
+    var params = new URLSearchParams(window.location.search);
+    var mode = params.get("${PREFERENCE_PARAMS.colourMode}") || stored.colourMode;
+    var duoTone = params.get("${PREFERENCE_PARAMS.isDuoTone}");
+    var isDuoTone = duoTone ? duoTone !== "off" : stored.isDuoTone !== false;
+    var root = document.documentElement;
+    var body = document.body;
+    if (mode === "dark") {
+      root.style.setProperty("--colour-light", "${theme.colours.dark}");
+      root.style.setProperty("--colour-dark", "${theme.colours.light}");
+      body.classList.add("dark-mode");
+    } else {
+      body.classList.add("light-mode");
+    }
+    if (!isDuoTone) {
+      body.classList.add("remove-duotone");
+    }
+  } catch (e) {}
+})();
+`;
@@ -0,0 +1,6 @@
+// Custom events dispatched on `window` so components in different trees can
+// talk without sharing context. Kept free of component imports so anything
+// can depend on it.
+
+// Opens the command palette, e.g. from the header's search trigger.
+export const OPEN_COMMAND_PALETTE_EVENT = "open-command-palette";
@@ -1,3 +1,5 @@
+import { PortableTextBlock } from "@portabletext/react";
+
 export type MediaType = {
   mediaType: "video" | "image";
   video?: {
@@ -62,10 +64,68 @@ export type SiteSettingsType = {
   instagramLink?: string;
 };
 
+export type SeoType = {
+  title?: string;
+  description?: string;
+};
+
+export type HomePageType = {
+  seo?: SeoType;
+  intro?: string;
+  featuredProjects?: ProjectType[];
+};
+
+export type WorkSortOption = "curated" | "date" | "title" | "type";
+
+export type WorkPageType = {
+  seo?: SeoType;
+  intro?: string;
+  featuredProjectIds?: string[];
+  defaultSort?: WorkSortOption;
+};
+
+export type CategoryType = {
+  _id: string;
+  title: string;
+  slug: SlugType;
+  order?: number;
+  colour?: string | null;
+};
+
 export type ProjectType = {
   _id: string;
   title: string;
-  type: "photography" | "cinematography" | "direction";
+  categories: CategoryType[];
+  year?: number;
+  client?: string;
+  agency?: string;
+  roles?: string[];
+  tags?: string[];
+  media: MediaType;
+  slug: SlugType;
+};
+
+export type CreditType = {
+  _key: string;
+  role: string;
+  name: string;
+  link?: string;
+};
+
+export type GalleryItemType = {
+  _key: string;
   media: MediaType;
+};
+
+export type ProjectLinkType = {
+  title: string;
   slug: SlugType;
 };
+
+export type ProjectDetailType = ProjectType & {
+  description?: PortableTextBlock[];
+  gallery?: GalleryItemType[];
+  credits?: CreditType[];
+  previousProject?: ProjectLinkType | null;
+  nextProject?: ProjectLinkType | null;
+};
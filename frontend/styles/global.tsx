@@ -254,6 +254,15 @@ export const GlobalStyles = createGlobalStyle`
 		overflow: hidden;
 	}
 
+	.sr-only {
+		position: absolute;
+		width: 1px;
+		height: 1px;
+		overflow: hidden;
+		clip: rect(0, 0, 0, 0);
+		white-space: nowrap;
+	}
+
 	img,
 	video {
 		max-width: 100%;
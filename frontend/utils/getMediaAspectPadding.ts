@@ -0,0 +1,27 @@
+import { MediaType } from "../shared/types/types";
+
+// Returns a padding-top value (height / width * 100) so media can reserve its
+// space before the asset loads. External video links are always 16:9.
+const getMediaAspectPadding = (media?: MediaType): string => {
+  const fallback = `${(9 / 16) * 100}%`;
+
+  if (!media) return fallback;
+
+  if (media.mediaType === "video" && media.video?.videoLink) {
+    return fallback;
+  }
+
+  const dimensions = (media.thumbnailImage ?? media.image)?.asset?.metadata
+    ?.dimensions;
+
+  const aspectRatio =
+    dimensions?.aspectRatio && dimensions.aspectRatio > 0
+      ? dimensions.aspectRatio
+      : dimensions?.width && dimensions?.height
+        ? dimensions.width / dimensions.height
+        : undefined;
+
+  return aspectRatio ? `${(1 / aspectRatio) * 100}%` : fallback;
+};
+
+export default getMediaAspectPadding;
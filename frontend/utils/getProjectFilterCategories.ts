@@ -0,0 +1,16 @@
+import { FilterCategory } from "../shared/context/context";
+import { ProjectType } from "../shared/types/types";
+
+// Filter categories are the slugs of the category documents a project
+// references.
+const getProjectFilterCategories = (
+  project: ProjectType | undefined
+): FilterCategory[] => {
+  const slugs = (project?.categories ?? [])
+    .map((category) => category?.slug?.current)
+    .filter((slug): slug is string => !!slug);
+
+  return Array.from(new Set(slugs));
+};
+
+export default getProjectFilterCategories;
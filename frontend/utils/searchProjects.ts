@@ -0,0 +1,122 @@
+import { ProjectType } from "../shared/types/types";
+
+// How much a match in each field counts, so a title hit outranks the same
+// letters turning up in a client name or a category.
+const FIELD_WEIGHTS = {
+  title: 3,
+  client: 2,
+  year: 1.5,
+  type: 1,
+};
+
+type SearchField = {
+  value: string;
+  weight: number;
+};
+
+export type ProjectSearchResult = {
+  project: ProjectType;
+  score: number;
+};
+
+const normalise = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+
+// Scores how well `term` matches `value` as a fuzzy subsequence: every letter
+// of the term has to appear in order. Consecutive letters and letters at the
+// start of a word score higher, and a plain substring beats both. Returns 0
+// when there's no match.
+export const getFuzzyScore = (term: string, value: string): number => {
+  if (!term || !value) return 0;
+
+  const substringIndex = value.indexOf(term);
+  if (substringIndex !== -1) {
+    const isWordStart =
+      substringIndex === 0 || /\W/.test(value[substringIndex - 1]);
+    return term.length * (isWordStart ? 4 : 3);
+  }
+
+  let score = 0;
+  let streak = 0;
+  let valueIndex = 0;
+
+  for (const letter of term) {
+    const matchIndex = value.indexOf(letter, valueIndex);
+    if (matchIndex === -1) return 0;
+
+    streak = matchIndex === valueIndex ? streak + 1 : 1;
+    const isWordStart = matchIndex === 0 || /\W/.test(value[matchIndex - 1]);
+
+    score += streak + (isWordStart ? 1 : 0);
+    valueIndex = matchIndex + 1;
+  }
+
+  return score;
+};
+
+const getSearchFields = (project: ProjectType): SearchField[] => {
+  const types = [
+    ...(project.categories ?? []).map((category) => category?.title),
+    ...(project.tags ?? []),
+  ];
+
+  return [
+    { value: project.title, weight: FIELD_WEIGHTS.title },
+    { value: project.client, weight: FIELD_WEIGHTS.client },
+    { value: project.year?.toString(), weight: FIELD_WEIGHTS.year },
+    ...types.map((type) => ({ value: type, weight: FIELD_WEIGHTS.type })),
+  ]
+    .filter((field): field is SearchField => !!field.value)
+    .map((field) => ({ ...field, value: normalise(field.value) }));
+};
+
+// Searches project titles, clients, years and types. Each word of the query
+// has to match at least one field; a project's score is the sum of each
+// word's best field. Projects are deduplicated by id and returned best first.
+const searchProjects = (
+  projects: ProjectType[],
+  query: string,
+  limit = 8
+): ProjectSearchResult[] => {
+  const terms = normalise(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const seen = new Set<string>();
+  const results: ProjectSearchResult[] = [];
+
+  projects.forEach((project) => {
+    if (!project?._id || seen.has(project._id)) return;
+    seen.add(project._id);
+
+    const fields = getSearchFields(project);
+    let score = 0;
+
+    for (const term of terms) {
+      const best = Math.max(
+        0,
+        ...fields.map(
+          (field) => getFuzzyScore(term, field.value) * field.weight
+        )
+      );
+      if (best === 0) return;
+
+      score += best;
+    }
+
+    results.push({ project, score });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.project.title ?? "").localeCompare(b.project.title ?? "")
+    )
+    .slice(0, limit);
+};
+
+export default searchProjects;
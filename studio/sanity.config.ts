@@ -1,9 +1,11 @@
 import {defineConfig} from 'sanity'
 import {deskTool} from 'sanity/desk'
-import {schemaTypes} from './schemas'
+import {schemaTypes, singletonTypes} from './schemas'
 import {muxInput} from 'sanity-plugin-mux-input'
 import {vercelDeployTool} from 'sanity-plugin-vercel-deploy'
-import {EarthGlobeIcon, CaseIcon} from '@sanity/icons'
+import {EarthGlobeIcon, CaseIcon, HomeIcon, ThListIcon, TagIcon} from '@sanity/icons'
+
+const singletonActions = new Set(['publish', 'discardChanges', 'restore'])
 
 export default defineConfig({
   name: 'default',
@@ -24,6 +26,15 @@ export default defineConfig({
               .icon(EarthGlobeIcon)
               .child(S.editor().schemaType('siteSettings').documentId('siteSettings')),
             S.divider(),
+            S.listItem()
+              .title('Home Page')
+              .icon(HomeIcon)
+              .child(S.editor().schemaType('homePage').documentId('homePage')),
+            S.listItem()
+              .title('Work Page')
+              .icon(ThListIcon)
+              .child(S.editor().schemaType('workPage').documentId('workPage')),
+            S.divider(),
             S.listItem()
               .title('Project')
               .icon(CaseIcon)
@@ -33,6 +44,16 @@ export default defineConfig({
                   .schemaType('project')
                   .filter('_type == "project"'),
               ),
+            S.listItem()
+              .title('Category')
+              .icon(TagIcon)
+              .child(
+                S.documentList()
+                  .title('Category')
+                  .schemaType('category')
+                  .filter('_type == "category"')
+                  .defaultOrdering([{field: 'order', direction: 'asc'}]),
+              ),
           ])
       },
     }),
@@ -42,6 +63,15 @@ export default defineConfig({
 
   schema: {
     types: schemaTypes,
+    templates: (templates) =>
+      templates.filter(({schemaType}) => !singletonTypes.has(schemaType)),
+  },
+
+  document: {
+    actions: (input, context) =>
+      singletonTypes.has(context.schemaType)
+        ? input.filter(({action}) => action && singletonActions.has(action))
+        : input,
   },
 
   parts: [
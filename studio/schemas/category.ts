@@ -0,0 +1,49 @@
+export default {
+  title: 'Category',
+  name: 'category',
+  type: 'document',
+  fields: [
+    {
+      title: 'Title',
+      name: 'title',
+      type: 'string',
+      validation: (Rule: any) => Rule.required(),
+    },
+    {
+      title: 'Slug',
+      name: 'slug',
+      type: 'slug',
+      options: {
+        source: 'title',
+      },
+      validation: (Rule: any) => Rule.required(),
+    },
+    {
+      title: 'Order',
+      name: 'order',
+      type: 'number',
+      description: 'Position in the filters menu. Lower numbers come first.',
+    },
+    {
+      title: 'Colour',
+      name: 'colour',
+      type: 'string',
+      description: 'Hex colour used to identify this category, e.g. #DDFF00.',
+      validation: (Rule: any) =>
+        Rule.regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, {name: 'hex colour'}),
+    },
+  ],
+  orderings: [
+    {
+      title: 'Order',
+      name: 'orderAsc',
+      by: [{field: 'order', direction: 'asc'}],
+    },
+  ],
+  preview: {
+    select: {
+      title: 'title',
+      subtitle: 'slug.current',
+    },
+  },
+}
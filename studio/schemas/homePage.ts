@@ -0,0 +1,36 @@
+import {seoObject} from '../objects'
+
+export default {
+  title: 'Home Page',
+  name: 'homePage',
+  type: 'document',
+  fields: [
+    {
+      title: 'Reference Title',
+      name: 'referenceTitle',
+      type: 'string',
+      description: 'This is an internal reference title.',
+    },
+    seoObject,
+    {
+      title: 'Intro',
+      name: 'intro',
+      type: 'text',
+      rows: 3,
+      description: 'Short intro shown over the canvas.',
+    },
+    {
+      title: 'Featured Projects',
+      name: 'featuredProjects',
+      type: 'array',
+      description: 'Curated projects for the canvas. Drag to reorder.',
+      of: [
+        {
+          type: 'reference',
+          to: [{type: 'project'}],
+        },
+      ],
+      validation: (Rule: any) => Rule.unique(),
+    },
+  ],
+}
@@ -1,4 +1,11 @@
 import siteSettings from './siteSettings'
+import homePage from './homePage'
+import workPage from './workPage'
 import project from './project'
+import category from './category'
 
-export const schemaTypes = [siteSettings, project]
+export const schemaTypes = [siteSettings, homePage, workPage, project, category]
+
+// Singleton documents are edited through fixed desk items and can't be
+// created or duplicated from the "New document" menu.
+export const singletonTypes = new Set(['siteSettings', 'homePage', 'workPage'])
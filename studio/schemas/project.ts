@@ -12,17 +12,34 @@ export default {
       validation: (Rule: any) => Rule.required(),
     },
     {
-      title: 'Type',
+      title: 'Categories',
+      name: 'categories',
+      type: 'array',
+      description: 'Every discipline Marcello covered on this job.',
+      of: [
+        {
+          type: 'reference',
+          to: [{type: 'category'}],
+        },
+      ],
+      validation: (Rule: any) => Rule.unique(),
+    },
+    {
+      // Legacy discipline fields, superseded by `categories`. Values are
+      // matched against category slugs until the project is re-tagged.
+      title: 'Types (legacy)',
+      name: 'types',
+      type: 'array',
+      of: [{type: 'string'}],
+      hidden: ({document}: any) => !document?.types?.length,
+      readOnly: true,
+    },
+    {
+      title: 'Type (legacy)',
       name: 'type',
       type: 'string',
-      options: {
-        list: [
-          {title: 'Photography', value: 'photography'},
-          {title: 'Cinematography', value: 'cinematography'},
-          {title: 'Direction', value: 'direction'},
-        ],
-        layout: 'dropdown',
-      },
+      hidden: ({document}: any) => !document?.type,
+      readOnly: true,
     },
     {
       title: 'Slug',
@@ -32,6 +49,115 @@ export default {
         source: 'title',
       },
     },
+    {
+      title: 'Year',
+      name: 'year',
+      type: 'number',
+      validation: (Rule: any) => Rule.integer().min(1900).max(2100),
+    },
+    {
+      title: 'Client',
+      name: 'client',
+      type: 'string',
+    },
+    {
+      title: 'Agency',
+      name: 'agency',
+      type: 'string',
+    },
+    {
+      title: 'Roles',
+      name: 'roles',
+      type: 'array',
+      description: "Marcello's role(s) on the job, e.g. Director of Photography.",
+      of: [{type: 'string'}],
+      options: {
+        layout: 'tags',
+      },
+    },
+    {
+      title: 'Description',
+      name: 'description',
+      type: 'array',
+      of: [
+        {
+          type: 'block',
+          styles: [{title: 'Normal', value: 'normal'}],
+          lists: [],
+        },
+      ],
+    },
+    {
+      title: 'Tags',
+      name: 'tags',
+      type: 'array',
+      of: [{type: 'string'}],
+      options: {
+        layout: 'tags',
+      },
+    },
     ...mediaBlock,
+    {
+      title: 'Gallery',
+      name: 'gallery',
+      type: 'array',
+      description: 'Additional media shown below the hero on the project page.',
+      of: [
+        {
+          title: 'Gallery Item',
+          name: 'galleryItem',
+          type: 'object',
+          fields: [...mediaBlock],
+          preview: {
+            select: {
+              mediaType: 'media.mediaType',
+              image: 'media.image',
+              thumbnailImage: 'media.thumbnailImage',
+            },
+            prepare: ({mediaType, image, thumbnailImage}: any) => ({
+              title: mediaType === 'video' ? 'Video' : 'Image',
+              media: image ?? thumbnailImage,
+            }),
+          },
+        },
+      ],
+    },
+    {
+      title: 'Credits',
+      name: 'credits',
+      type: 'array',
+      of: [
+        {
+          title: 'Credit',
+          name: 'credit',
+          type: 'object',
+          fields: [
+            {
+              title: 'Role',
+              name: 'role',
+              type: 'string',
+              validation: (Rule: any) => Rule.required(),
+            },
+            {
+              title: 'Name',
+              name: 'name',
+              type: 'string',
+              validation: (Rule: any) => Rule.required(),
+            },
+            {
+              title: 'Link',
+              name: 'link',
+              type: 'url',
+            },
+          ],
+          preview: {
+            select: {
+              title: 'name',
+              subtitle: 'role',
+            },
+          },
+        },
+      ],
+    },
   ],
 }
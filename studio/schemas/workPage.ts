@@ -0,0 +1,52 @@
+import {seoObject} from '../objects'
+
+export default {
+  title: 'Work Page',
+  name: 'workPage',
+  type: 'document',
+  fields: [
+    {
+      title: 'Reference Title',
+      name: 'referenceTitle',
+      type: 'string',
+      description: 'This is an internal reference title.',
+    },
+    seoObject,
+    {
+      title: 'Intro',
+      name: 'intro',
+      type: 'text',
+      rows: 3,
+      description: 'Short intro shown above the project list.',
+    },
+    {
+      title: 'Featured Projects',
+      name: 'featuredProjects',
+      type: 'array',
+      description: 'Curated projects listed first when sorting by "Curated". Drag to reorder.',
+      of: [
+        {
+          type: 'reference',
+          to: [{type: 'project'}],
+        },
+      ],
+      validation: (Rule: any) => Rule.unique(),
+    },
+    {
+      title: 'Default Sort',
+      name: 'defaultSort',
+      type: 'string',
+      description: 'How the project list is ordered when the page loads.',
+      options: {
+        list: [
+          {title: 'Curated', value: 'curated'},
+          {title: 'Date', value: 'date'},
+          {title: 'Title', value: 'title'},
+          {title: 'Type', value: 'type'},
+        ],
+        layout: 'radio',
+      },
+      initialValue: 'date',
+    },
+  ],
+}